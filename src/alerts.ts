@@ -0,0 +1,47 @@
+import { config } from './config';
+import { WebhookEvent, WebhookPayloads } from './types';
+import { logger } from './utils/logger';
+import { sendWebhookEvent } from './webhook';
+
+export type AlertType = 'streamError' | 'uploadFailed' | 'streamStalled' | 'diskLow' | 'highCpu';
+
+interface AlertState {
+    lastSentAt: number;
+    suppressed: number;
+}
+
+// Keyed by alert subject, e.g. `streamStalled:<stream name>`
+const alertStates = new Map<string, AlertState>();
+
+/**
+ * Send an alert unless one with the same key went out within the dedup window, so a
+ * flapping stream or a storage outage doesn't flood the receiver. Suppressed alerts
+ * are counted and reported with the next one that goes out.
+ */
+export async function raiseAlert<T extends AlertType>(
+    type: T,
+    key: string,
+    payload: Omit<WebhookPayloads[T], 'occurrences'>
+) {
+    const now = Date.now();
+    const state = alertStates.get(key);
+    if (state && now - state.lastSentAt < config.ALERTS.DEDUP_WINDOW_S * 1000) {
+        state.suppressed++;
+        logger.log(`Suppressed ${type} alert for ${key}, ${state.suppressed} since the last one`);
+        return;
+    }
+
+    alertStates.set(key, { lastSentAt: now, suppressed: 0 });
+    const occurrences = (state?.suppressed ?? 0) + 1;
+    await sendWebhookEvent({
+        type,
+        payload: { ...payload, occurrences } as WebhookPayloads[T],
+        server: config.STREAM_SERVER_NAME,
+        time: new Date(now).toISOString(),
+    } as WebhookEvent);
+}
+
+// The condition is over, the next occurrence alerts right away
+export function clearAlert(key: string) {
+    alertStates.delete(key);
+}
@@ -0,0 +1,388 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { config } from './config';
+import { database } from './database';
+import { ApiKeyConfig, AuditEntry, Identity, Role, UserConfig } from './types';
+import { logger } from './utils/logger';
+
+const ROLES: Role[] = ['viewer', 'operator', 'admin'];
+const SESSION_COOKIE = 'stream_session';
+const OIDC_COOKIE = 'stream_oidc';
+const OIDC_LOGIN_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Reachable without logging in, everything else needs at least the viewer role
+const PUBLIC_PATHS = ['/login', '/login.html', '/auth/methods', '/auth/login', '/auth/oidc/login', '/auth/oidc/callback'];
+
+// Who everyone is while authentication is off
+const ANONYMOUS: Identity = { name: 'anonymous', role: 'admin', method: 'none' };
+
+const apiKeys: { [name: string]: ApiKeyConfig } = JSON.parse(config.AUTH.API_KEYS);
+const users: { [username: string]: UserConfig } = JSON.parse(config.AUTH.USERS);
+const sessionSecret = config.AUTH.SESSION_SECRET || crypto.randomBytes(32).toString('hex');
+
+interface OidcConfiguration {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+}
+
+let oidcConfiguration: Promise<OidcConfiguration> | null = null;
+
+export function isAuthEnabled(): boolean {
+    return Object.keys(apiKeys).length > 0 || Object.keys(users).length > 0 || isOidcEnabled();
+}
+
+export function isPasswordLoginEnabled(): boolean {
+    return Object.keys(users).length > 0;
+}
+
+export function isOidcEnabled(): boolean {
+    return !!config.AUTH.OIDC.ISSUER;
+}
+
+export function hasRole(identity: Identity, role: Role): boolean {
+    return ROLES.indexOf(identity.role) >= ROLES.indexOf(role);
+}
+
+// Makes the passwordHash of a user, e.g. `npx ts-node -T -e "console.log(require('./src/auth').hashPassword('...'))"`
+export function hashPassword(password: string): string {
+    const salt = crypto.randomBytes(16);
+    return `scrypt:${salt.toString('hex')}:${crypto.scryptSync(password, salt, 64).toString('hex')}`;
+}
+
+// Hashing both sides first keeps timingSafeEqual from giving away the length
+function safeEqual(a: string, b: string): boolean {
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(digest(a), digest(b));
+}
+
+// scrypt runs on the thread pool, a burst of logins doesn't hold up recordings
+function scrypt(password: string, salt: Buffer, length: number): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        crypto.scrypt(password, salt, length, (err, key) => err ? reject(err) : resolve(key));
+    });
+}
+
+async function verifyPassword(password: string, user: UserConfig): Promise<boolean> {
+    if (user.password !== undefined) return safeEqual(password, user.password);
+
+    const [scheme, salt, expected] = (user.passwordHash || '').split(':');
+    if (scheme !== 'scrypt' || !salt || !expected) return false;
+    const actual = await scrypt(password, Buffer.from(salt, 'hex'), expected.length / 2);
+    return crypto.timingSafeEqual(actual, Buffer.from(expected, 'hex'));
+}
+
+/**
+ * Failed password logins counted per IP and per username over LOGIN_WINDOW_S. Once
+ * either reaches LOGIN_MAX_FAILURES, logins are refused before any password is checked
+ * until the window is over. Failures stay out of the audit log, which anyone could
+ * otherwise flush with bad requests, only a lockout is logged.
+ */
+class LoginThrottle {
+    private failures = new Map<string, { count: number; resetAt: number }>();
+
+    // Seconds until a login may be tried again, 0 when it may right away
+    getRetryAfter(ip: string, username: string): number {
+        const now = Date.now();
+        const resetAt = [`ip:${ip}`, `user:${username}`]
+            .map(key => this.failures.get(key))
+            .filter(entry => entry && entry.resetAt > now && entry.count >= config.AUTH.LOGIN_MAX_FAILURES)
+            .reduce((latest, entry) => Math.max(latest, entry!.resetAt), 0);
+        return resetAt > 0 ? Math.ceil((resetAt - now) / 1000) : 0;
+    }
+
+    recordFailure(ip: string, username: string) {
+        const now = Date.now();
+        this.prune(now);
+
+        for (const key of [`ip:${ip}`, `user:${username}`]) {
+            const entry = this.failures.get(key);
+            if (!entry || entry.resetAt <= now) {
+                this.failures.set(key, { count: 1, resetAt: now + config.AUTH.LOGIN_WINDOW_S * 1000 });
+                continue;
+            }
+            entry.count++;
+            if (entry.count === config.AUTH.LOGIN_MAX_FAILURES) {
+                logger.log(`Refusing password logins for ${key} after ${entry.count} failures`);
+            }
+        }
+    }
+
+    recordSuccess(ip: string, username: string) {
+        this.failures.delete(`ip:${ip}`);
+        this.failures.delete(`user:${username}`);
+    }
+
+    private prune(now: number) {
+        this.failures.forEach((entry, key) => {
+            if (entry.resetAt <= now) this.failures.delete(key);
+        });
+    }
+}
+
+export const loginThrottle = new LoginThrottle();
+
+function validateRole(role: unknown): string | null {
+    return ROLES.includes(role as Role) ? null : `role must be one of ${ROLES.join(', ')}`;
+}
+
+export function validateAuthConfig() {
+    for (const [name, apiKey] of Object.entries(apiKeys)) {
+        if (!apiKey || typeof apiKey.key !== 'string' || apiKey.key.length < 16) {
+            throw new Error(`API key ${name} is invalid: key must be a string of at least 16 characters`);
+        }
+        const error = validateRole(apiKey.role);
+        if (error) throw new Error(`API key ${name} is invalid: ${error}`);
+    }
+
+    for (const [username, user] of Object.entries(users)) {
+        if (!user || (typeof user.password !== 'string' && !/^scrypt:[0-9a-f]+:[0-9a-f]+$/.test(user.passwordHash || ''))) {
+            throw new Error(`User ${username} is invalid: needs a password or a passwordHash like scrypt:<salt>:<hash>`);
+        }
+        const error = validateRole(user.role);
+        if (error) throw new Error(`User ${username} is invalid: ${error}`);
+    }
+
+    if (isOidcEnabled()) {
+        const { CLIENT_ID, CLIENT_SECRET, REDIRECT_URL, DEFAULT_ROLE } = config.AUTH.OIDC;
+        if (!CLIENT_ID || !CLIENT_SECRET || !REDIRECT_URL) {
+            throw new Error('OIDC needs AUTH_OIDC_CLIENT_ID, AUTH_OIDC_CLIENT_SECRET and AUTH_OIDC_REDIRECT_URL');
+        }
+        if (DEFAULT_ROLE && validateRole(DEFAULT_ROLE)) {
+            throw new Error(`AUTH_OIDC_DEFAULT_ROLE is invalid: ${validateRole(DEFAULT_ROLE)}`);
+        }
+    }
+}
+
+// Cookies carry their data signed rather than encrypted, nothing secret goes into them
+
+function sign(payload: string): string {
+    return crypto.createHmac('sha256', sessionSecret).update(payload).digest('base64url');
+}
+
+function encodeSigned(data: object, expiresAt: number): string {
+    const payload = Buffer.from(JSON.stringify({ ...data, exp: expiresAt })).toString('base64url');
+    return `${payload}.${sign(payload)}`;
+}
+
+function decodeSigned<T>(value: string | undefined): T | null {
+    const [payload, signature] = (value || '').split('.');
+    if (!payload || !signature || !safeEqual(signature, sign(payload))) return null;
+
+    try {
+        const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        return data.exp > Date.now() ? data : null;
+    } catch {
+        return null;
+    }
+}
+
+function getCookie(req: Request, name: string): string | undefined {
+    const cookie = (req.headers.cookie || '')
+        .split(';')
+        .map(part => part.trim())
+        .find(part => part.startsWith(`${name}=`));
+    return cookie ? decodeURIComponent(cookie.slice(name.length + 1)) : undefined;
+}
+
+function setCookie(req: Request, res: Response, name: string, value: string, maxAgeMs: number) {
+    res.cookie(name, value, { httpOnly: true, sameSite: 'lax', secure: req.secure, maxAge: maxAgeMs, path: '/' });
+}
+
+export function startSession(req: Request, res: Response, identity: Identity) {
+    const ttlMs = config.AUTH.SESSION_TTL_H * 60 * 60 * 1000;
+    setCookie(req, res, SESSION_COOKIE, encodeSigned(identity, Date.now() + ttlMs), ttlMs);
+}
+
+export function endSession(res: Response) {
+    res.clearCookie(SESSION_COOKIE, { path: '/' });
+}
+
+// API keys come as X-API-Key or a bearer token, people have a session cookie
+function authenticate(req: Request): Identity | null {
+    const authorization = req.get('Authorization');
+    const key = req.get('X-API-Key') || (authorization?.startsWith('Bearer ') ? authorization.slice(7) : undefined);
+    if (key) {
+        const entry = Object.entries(apiKeys).find(([, apiKey]) => safeEqual(apiKey.key, key));
+        return entry ? { name: entry[0], role: entry[1].role, method: 'apiKey' } : null;
+    }
+
+    const session = decodeSigned<Identity>(getCookie(req, SESSION_COOKIE));
+    if (!session) return null;
+    if (session.method === 'password') {
+        // Removing a user or changing their role applies to running sessions too
+        const user = users[session.name];
+        return user ? { name: session.name, role: user.role, method: 'password' } : null;
+    }
+    return { name: session.name, role: session.role, method: session.method };
+}
+
+export async function loginWithPassword(username: string, password: string): Promise<Identity | null> {
+    const user = Object.prototype.hasOwnProperty.call(users, username) ? users[username] : undefined;
+    if (!user || !(await verifyPassword(password, user))) return null;
+    return { name: username, role: user.role, method: 'password' };
+}
+
+// Only paths on this server, anything else could send people off to another site after logging in.
+// Browsers read a backslash as a slash, so /\evil.com is rejected along with //evil.com.
+export function getSafeRedirect(next: unknown): string {
+    if (typeof next !== 'string' || !next.startsWith('/') || /[\\\x00-\x1f\x7f]/.test(next)) return '/';
+    try {
+        const url = new URL(next, 'http://x');
+        return url.origin === 'http://x' ? url.pathname + url.search + url.hash : '/';
+    } catch {
+        return '/';
+    }
+}
+
+/**
+ * Runs ahead of every route and static file. Sets res.locals.identity, or answers with
+ * 401 for API calls and a redirect to the login page for pages.
+ */
+export function authMiddleware(req: Request, res: Response, next: NextFunction) {
+    if (!isAuthEnabled()) {
+        res.locals.identity = ANONYMOUS;
+        next();
+        return;
+    }
+    if (PUBLIC_PATHS.includes(req.path)) {
+        next();
+        return;
+    }
+
+    const identity = authenticate(req);
+    if (!identity) {
+        if (req.method === 'GET' && !req.path.startsWith('/api/') && req.accepts(['json', 'html']) === 'html') {
+            res.redirect(`/login?next=${encodeURIComponent(req.originalUrl)}`);
+            return;
+        }
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+    }
+
+    res.locals.identity = identity;
+    next();
+}
+
+export function getIdentity(res: Response): Identity {
+    return res.locals.identity as Identity;
+}
+
+export function requireRole(role: Role) {
+    return (_req: Request, res: Response, next: NextFunction) => {
+        if (!hasRole(getIdentity(res), role)) {
+            res.status(403).json({ error: `This needs the ${role} role` });
+            return;
+        }
+        next();
+    };
+}
+
+export function audit(
+    req: Request,
+    identity: Identity,
+    action: string,
+    target: string,
+    details?: AuditEntry['details']
+) {
+    const entry: AuditEntry = {
+        time: new Date().toISOString(),
+        actor: identity.name,
+        role: identity.role,
+        method: identity.method,
+        action,
+        target,
+        ip: req.ip,
+        details,
+    };
+    database.addAuditEntry(entry, config.AUTH.AUDIT_LOG_SIZE);
+    logger.log(`[audit] ${identity.name} (${identity.role}) ${action} ${target}`);
+}
+
+// OIDC authorization code flow
+
+function getOidcConfiguration(): Promise<OidcConfiguration> {
+    if (!oidcConfiguration) {
+        const url = `${config.AUTH.OIDC.ISSUER.replace(/\/$/, '')}/.well-known/openid-configuration`;
+        oidcConfiguration = fetch(url)
+            .then(async response => {
+                if (!response.ok) throw new Error(`OIDC discovery answered with status ${response.status}`);
+                return await response.json() as OidcConfiguration;
+            })
+            .catch(err => {
+                // Try again on the next login instead of caching the failure
+                oidcConfiguration = null;
+                throw err;
+            });
+    }
+    return oidcConfiguration;
+}
+
+// The highest known role in the role claim, the default role otherwise
+function getOidcRole(claims: { [claim: string]: unknown }): Role | null {
+    const claim = claims[config.AUTH.OIDC.ROLE_CLAIM];
+    const values = Array.isArray(claim) ? claim : [claim];
+    const granted = ROLES.filter(role => values.includes(role));
+    if (granted.length > 0) return granted[granted.length - 1];
+    return (config.AUTH.OIDC.DEFAULT_ROLE as Role) || null;
+}
+
+// URL of the identity provider's login page, the state to check on the way back goes into a cookie
+export async function startOidcLogin(req: Request, res: Response, next: string): Promise<string> {
+    const { authorization_endpoint } = await getOidcConfiguration();
+    const state = crypto.randomBytes(16).toString('hex');
+    const nonce = crypto.randomBytes(16).toString('hex');
+    setCookie(req, res, OIDC_COOKIE, encodeSigned({ state, nonce, next }, Date.now() + OIDC_LOGIN_TIMEOUT_MS), OIDC_LOGIN_TIMEOUT_MS);
+
+    const url = new URL(authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', config.AUTH.OIDC.CLIENT_ID);
+    url.searchParams.set('redirect_uri', config.AUTH.OIDC.REDIRECT_URL);
+    url.searchParams.set('scope', config.AUTH.OIDC.SCOPES);
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    return url.href;
+}
+
+/**
+ * Exchange the code the identity provider sent back for an ID token. The token comes
+ * straight from the token endpoint over TLS, which OIDC accepts in place of checking its
+ * signature; issuer, audience, expiry and nonce are still checked.
+ */
+export async function finishOidcLogin(req: Request, res: Response): Promise<{ identity: Identity; next: string }> {
+    const pending = decodeSigned<{ state: string; nonce: string; next: string }>(getCookie(req, OIDC_COOKIE));
+    res.clearCookie(OIDC_COOKIE, { path: '/' });
+    if (!pending || req.query.state !== pending.state || typeof req.query.code !== 'string') {
+        throw new Error('Login expired or did not start here, try again');
+    }
+
+    const { issuer, token_endpoint } = await getOidcConfiguration();
+    const { CLIENT_ID, CLIENT_SECRET, REDIRECT_URL } = config.AUTH.OIDC;
+    const response = await fetch(token_endpoint, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Authorization': `Basic ${Buffer.from(`${encodeURIComponent(CLIENT_ID)}:${encodeURIComponent(CLIENT_SECRET)}`).toString('base64')}`,
+        },
+        body: new URLSearchParams({ grant_type: 'authorization_code', code: req.query.code, redirect_uri: REDIRECT_URL }),
+    });
+    if (!response.ok) {
+        throw new Error(`Token endpoint answered with status ${response.status}`);
+    }
+
+    const { id_token } = await response.json() as { id_token?: string };
+    if (!id_token) throw new Error('Token endpoint sent no ID token');
+    const claims = JSON.parse(Buffer.from(id_token.split('.')[1] || '', 'base64url').toString('utf8'));
+
+    const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (claims.iss !== issuer) throw new Error(`ID token was issued by ${claims.iss}, not ${issuer}`);
+    if (!audience.includes(CLIENT_ID)) throw new Error('ID token is meant for another client');
+    if (!(claims.exp * 1000 > Date.now())) throw new Error('ID token has expired');
+    if (claims.nonce !== pending.nonce) throw new Error('ID token does not belong to this login');
+
+    const name = claims.preferred_username || claims.email || claims.sub;
+    const role = getOidcRole(claims);
+    if (!role) throw new Error(`${name} has no role on this server`);
+
+    return { identity: { name, role, method: 'oidc' }, next: getSafeRedirect(pending.next) };
+}
@@ -10,13 +10,129 @@ export const config = {
         REGION: process.env.AWS_REGION || '',
         S3_BUCKET: process.env.AWS_S3_BUCKET || '',
         S3_SAVE_PATH: process.env.AWS_S3_SAVE_PATH || 'stream_backup',
+        ENDPOINT: process.env.AWS_S3_ENDPOINT || '',
+        FORCE_PATH_STYLE: (process.env.AWS_S3_FORCE_PATH_STYLE || 'false') === 'true',
+    },
+    STORAGE: {
+        DEFAULT: process.env.STORAGE_DEFAULT || 'default',
+        BACKENDS: process.env.STORAGE_BACKENDS || '{}',
+        PART_SIZE_MB: Number(process.env.STORAGE_PART_SIZE_MB) || 16,
+        UPLOAD_CONCURRENCY: Number(process.env.STORAGE_UPLOAD_CONCURRENCY) || 4,
+    },
+    ENCODING: {
+        DEFAULT_PROFILE: process.env.ENCODING_DEFAULT_PROFILE || 'default',
+        PROFILES: process.env.ENCODING_PROFILES || '{}',
+    },
+    LIVENESS: {
+        // A playlist whose media sequence hasn't moved for this long counts as stalled
+        STALL_AFTER_S: Number(process.env.LIVENESS_STALL_AFTER_S) || 30,
+        STALL_TARGET_DURATIONS: Number(process.env.LIVENESS_STALL_TARGET_DURATIONS) || 3,
+        // A recording ends once its source has been stalled for this long
+        END_AFTER_STALL_S: Number(process.env.LIVENESS_END_AFTER_STALL_S) || 120,
+    },
+    RECONNECT: {
+        // ffmpeg dropping out is retried under the same session for this long
+        GRACE_PERIOD_S: Number(process.env.RECONNECT_GRACE_PERIOD_S ?? 60),
+        RETRY_INTERVAL_S: Number(process.env.RECONNECT_RETRY_INTERVAL_S) || 5,
+        FILL_GAPS: process.env.RECONNECT_FILL_GAPS === 'true',
+    },
+    ALERTS: {
+        // Alerts with the same subject are sent at most once per window
+        DEDUP_WINDOW_S: Number(process.env.ALERT_DEDUP_WINDOW_S) || 15 * 60,
+        CPU_HIGH_PERCENT: Number(process.env.ALERT_CPU_HIGH_PERCENT) || 90,
+        // Consecutive one-minute samples above the threshold before highCpu fires
+        CPU_HIGH_SAMPLES: Number(process.env.ALERT_CPU_HIGH_SAMPLES) || 3,
+        DISK_PATH: process.env.ALERT_DISK_PATH || 'recordings',
+        DISK_LOW_PERCENT: Number(process.env.ALERT_DISK_LOW_PERCENT) || 10,
+    },
+    UPLOAD_QUEUE: {
+        MAX_ATTEMPTS: Number(process.env.UPLOAD_MAX_ATTEMPTS) || 10,
+        RETRY_BASE_DELAY_MS: Number(process.env.UPLOAD_RETRY_BASE_DELAY_MS) || 30 * 1000,
+        RETRY_MAX_DELAY_MS: Number(process.env.UPLOAD_RETRY_MAX_DELAY_MS) || 60 * 60 * 1000,
+        CHECK_INTERVAL_MS: Number(process.env.UPLOAD_CHECK_INTERVAL_MS) || 5 * 1000,
+    },
+    RECOVERY: {
+        // Startups that try to rebuild a failed session before its chunks are left alone
+        MAX_ATTEMPTS: Number(process.env.RECOVERY_MAX_ATTEMPTS) || 3,
     },
     STREAM: {
         CHECK_INTERVAL_MS: Number(process.env.STREAM_CHECK_INTERVAL_MS) || 5 * 60 * 1000,
         CHUNK_DURATION_S: Number(process.env.STREAM_CHUNK_DURATION_S) || 300,
         STREAM_DATA: process.env.STREAM_DATA || '[]',
     },
+    DATABASE: {
+        PATH: process.env.DATABASE_PATH || 'data/db.json',
+        WRITE_DELAY_MS: Number(process.env.DATABASE_WRITE_DELAY_MS) || 1000,
+        // Every write rewrites the whole file, older finished sessions (with their chunks) and uploads are dropped
+        SESSION_HISTORY_SIZE: Number(process.env.DATABASE_SESSION_HISTORY_SIZE) || 1000,
+        UPLOAD_HISTORY_SIZE: Number(process.env.DATABASE_UPLOAD_HISTORY_SIZE) || 1000,
+    },
+    AUTH: {
+        // Login is required as soon as any API key, user or OIDC issuer is configured
+        // {"<name>": {"key": "...", "role": "viewer|operator|admin"}}, sent as X-API-Key or a Bearer token
+        API_KEYS: process.env.AUTH_API_KEYS || '{}',
+        // {"<username>": {"passwordHash": "scrypt:...", "role": "..."}}, see hashPassword in auth.ts
+        USERS: process.env.AUTH_USERS || '{}',
+        // Signs session cookies, without it logins only last until the next restart
+        SESSION_SECRET: process.env.AUTH_SESSION_SECRET || '',
+        SESSION_TTL_H: Number(process.env.AUTH_SESSION_TTL_H) || 12,
+        AUDIT_LOG_SIZE: Number(process.env.AUTH_AUDIT_LOG_SIZE) || 5000,
+        // Failed password logins per IP and per username before further attempts are refused for the window
+        LOGIN_MAX_FAILURES: Number(process.env.AUTH_LOGIN_MAX_FAILURES) || 10,
+        LOGIN_WINDOW_S: Number(process.env.AUTH_LOGIN_WINDOW_S) || 15 * 60,
+        OIDC: {
+            ISSUER: process.env.AUTH_OIDC_ISSUER || '',
+            CLIENT_ID: process.env.AUTH_OIDC_CLIENT_ID || '',
+            CLIENT_SECRET: process.env.AUTH_OIDC_CLIENT_SECRET || '',
+            REDIRECT_URL: process.env.AUTH_OIDC_REDIRECT_URL || '',  // https://<host>/auth/oidc/callback
+            SCOPES: process.env.AUTH_OIDC_SCOPES || 'openid profile email',
+            // Claim holding the role (or a list of roles), users without one get the default, none when empty
+            ROLE_CLAIM: process.env.AUTH_OIDC_ROLE_CLAIM || 'roles',
+            DEFAULT_ROLE: process.env.AUTH_OIDC_DEFAULT_ROLE ?? 'viewer',
+        },
+    },
     WEBHOOK_URL: process.env.WEBHOOK_URL || '',
     WEBHOOK_SECRET: process.env.WEBHOOK_SECRET || '',
+    // Sent as Authorization: Bearer to the default endpoint, must not be the signing secret
+    WEBHOOK_BEARER_TOKEN: process.env.WEBHOOK_BEARER_TOKEN || '',
+    WEBHOOK: {
+        ENDPOINTS: process.env.WEBHOOK_ENDPOINTS || '{}',
+        TIMEOUT_MS: Number(process.env.WEBHOOK_TIMEOUT_MS) || 5 * 1000,
+        MAX_ATTEMPTS: Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 10,
+        RETRY_BASE_DELAY_MS: Number(process.env.WEBHOOK_RETRY_BASE_DELAY_MS) || 10 * 1000,
+        RETRY_MAX_DELAY_MS: Number(process.env.WEBHOOK_RETRY_MAX_DELAY_MS) || 60 * 60 * 1000,
+        CHECK_INTERVAL_MS: Number(process.env.WEBHOOK_CHECK_INTERVAL_MS) || 5 * 1000,
+        // Delivered and failed deliveries kept for the delivery log
+        LOG_SIZE: Number(process.env.WEBHOOK_LOG_SIZE) || 500,
+    },
+    THUMBNAILS: {
+        // Poster, sprite sheet and WebVTT track uploaded with every chunk and complete.mp4
+        ENABLED: (process.env.THUMBNAILS_ENABLED || 'true') === 'true',
+        POSTER_WIDTH: Number(process.env.THUMBNAILS_POSTER_WIDTH) || 640,
+        TILE_WIDTH: Number(process.env.THUMBNAILS_TILE_WIDTH) || 160,
+        INTERVAL_S: Number(process.env.THUMBNAILS_INTERVAL_S) || 10,
+        MAX_TILES: Number(process.env.THUMBNAILS_MAX_TILES) || 100,
+        COLUMNS: Number(process.env.THUMBNAILS_COLUMNS) || 10,
+    },
+    PREVIEW: {
+        // Recordings keep one JPEG of their latest picture up to date for the dashboard
+        ENABLED: (process.env.PREVIEW_ENABLED || 'true') === 'true',
+        INTERVAL_S: Number(process.env.PREVIEW_INTERVAL_S) || 5,
+        WIDTH: Number(process.env.PREVIEW_WIDTH) || 480,
+    },
+    EVENTS: {
+        // One system sample is shared by every dashboard, /api/status and the event stream
+        SYSTEM_SAMPLE_MS: Number(process.env.EVENTS_SYSTEM_SAMPLE_MS) || 5 * 1000,
+        // Stream state changes many times a second while recording, diffs go out at most this often
+        STATE_THROTTLE_MS: Number(process.env.EVENTS_STATE_THROTTLE_MS) || 1000,
+        // Comment lines keep proxies from closing an idle event stream
+        HEARTBEAT_MS: Number(process.env.EVENTS_HEARTBEAT_MS) || 25 * 1000,
+    },
+    RECORDINGS: {
+        // Lifetime of the URLs the recordings library hands out, they are signed again on every request
+        URL_EXPIRY_S: Number(process.env.RECORDINGS_URL_EXPIRY_S) || 6 * 60 * 60,
+        PAGE_SIZE: Number(process.env.RECORDINGS_PAGE_SIZE) || 50,
+        MAX_PAGE_SIZE: Number(process.env.RECORDINGS_MAX_PAGE_SIZE) || 500,
+    },
     STREAM_SERVER_NAME: process.env.STREAM_SERVER_NAME || 'default',
 }
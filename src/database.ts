@@ -0,0 +1,352 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from './config';
+import { logger } from './utils/logger';
+import {
+    AuditEntry,
+    ChunkRecord,
+    DatabaseSchema,
+    MultipartUploadRecord,
+    SessionEncoding,
+    SessionError,
+    SessionGap,
+    SessionOutput,
+    SessionRecord,
+    SessionStatus,
+    StreamConfig,
+    StreamStates,
+    UploadedFile,
+    UploadJob,
+    WebhookDelivery,
+} from './types';
+
+function emptySchema(): DatabaseSchema {
+    return {
+        streams: [],
+        pingHistory: {},
+        sessions: [],
+        chunks: [],
+        uploads: [],
+        multipartUploads: [],
+        uploadJobs: [],
+        webhookDeliveries: [],
+        auditLog: [],
+    };
+}
+
+/**
+ * Small JSON-file store for everything that should survive a restart.
+ * Reads happen from memory; writes are debounced and flushed atomically.
+ */
+class Database {
+    private data: DatabaseSchema = emptySchema();
+    private writeTimeout: NodeJS.Timeout | null = null;
+
+    constructor(
+        private filePath: string,
+        private writeDelayMs: number
+    ) { }
+
+    load() {
+        try {
+            if (fs.existsSync(this.filePath)) {
+                const raw = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+                this.data = { ...emptySchema(), ...raw };
+                logger.log(`Loaded database from ${this.filePath}`);
+            }
+        } catch (error) {
+            logger.log(`Error loading database from ${this.filePath}: ${error}`);
+            this.data = emptySchema();
+        }
+    }
+
+    flush() {
+        if (this.writeTimeout) {
+            clearTimeout(this.writeTimeout);
+            this.writeTimeout = null;
+        }
+
+        try {
+            fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+            const tmpPath = `${this.filePath}.tmp`;
+            fs.writeFileSync(tmpPath, JSON.stringify(this.data, null, 2));
+            fs.renameSync(tmpPath, this.filePath);
+        } catch (error) {
+            logger.log(`Error writing database to ${this.filePath}: ${error}`);
+        }
+    }
+
+    private save() {
+        if (this.writeTimeout) return;
+        this.writeTimeout = setTimeout(() => this.flush(), this.writeDelayMs);
+    }
+
+    // Streams
+
+    getStreams(): StreamConfig[] {
+        return this.data.streams.map(stream => ({ ...stream }));
+    }
+
+    saveStreams(streams: StreamConfig[]) {
+        this.data.streams = streams.map(stream => ({ ...stream }));
+        this.save();
+    }
+
+    getPingHistory(streamName: string): boolean[] | undefined {
+        return this.data.pingHistory[streamName];
+    }
+
+    // Called whenever a ping is recorded or a stream goes away, not on every state change
+    savePingHistory(states: StreamStates) {
+        let changed = false;
+        const pingHistory: DatabaseSchema['pingHistory'] = {};
+
+        for (const streamName in states) {
+            const history = states[streamName].pingHistory;
+            const previous = this.data.pingHistory[streamName];
+            if (!previous || previous.join() !== history.join()) {
+                changed = true;
+            }
+            pingHistory[streamName] = [...history];
+        }
+        if (Object.keys(pingHistory).length !== Object.keys(this.data.pingHistory).length) {
+            changed = true;
+        }
+
+        if (changed) {
+            this.data.pingHistory = pingHistory;
+            this.save();
+        }
+    }
+
+    // Sessions
+
+    getSessions(): SessionRecord[] {
+        return [...this.data.sessions];
+    }
+
+    getSession(sessionID: string): SessionRecord | undefined {
+        return this.data.sessions.find(session => session.sessionID === sessionID);
+    }
+
+    startSession(
+        session: Omit<SessionRecord, 'startedAt' | 'endedAt' | 'status'> & { startedAt?: string }
+    ): SessionRecord {
+        const record: SessionRecord = {
+            ...session,
+            startedAt: session.startedAt || new Date().toISOString(),
+            endedAt: null,
+            status: 'recording',
+        };
+        this.data.sessions.push(record);
+        this.save();
+        return record;
+    }
+
+    endSession(sessionID: string, status: SessionStatus) {
+        const session = this.getSession(sessionID);
+        if (!session) return;
+
+        session.endedAt = new Date().toISOString();
+        session.status = status;
+        this.save();
+    }
+
+    setSessionEncoding(sessionID: string, encoding: SessionEncoding, rendition?: string) {
+        const session = this.getSession(sessionID);
+        if (!session) return;
+
+        if (rendition) {
+            session.renditions = { ...session.renditions, [rendition]: encoding };
+        } else {
+            session.encoding = encoding;
+        }
+        this.save();
+    }
+
+    addSessionGap(sessionID: string, gap: SessionGap) {
+        const session = this.getSession(sessionID);
+        if (!session) return;
+
+        session.gaps = [...(session.gaps || []), gap];
+        this.save();
+    }
+
+    addSessionError(sessionID: string, message: string, rendition?: string) {
+        const session = this.getSession(sessionID);
+        if (!session) return;
+
+        const error: SessionError = { time: new Date().toISOString(), message, rendition };
+        session.errors = [...(session.errors || []), error];
+        this.save();
+    }
+
+    addSessionOutput(sessionID: string, output: SessionOutput) {
+        const session = this.getSession(sessionID);
+        if (!session) return;
+
+        // A retried upload replaces the earlier record of the same archive
+        session.outputs = [...(session.outputs || []).filter(o => o.key !== output.key), output];
+        this.save();
+    }
+
+    addRecoveryAttempt(sessionID: string) {
+        const session = this.getSession(sessionID);
+        if (!session) return;
+
+        session.recoveryAttempts = (session.recoveryAttempts || 0) + 1;
+        this.save();
+    }
+
+    // Sessions still in progress or in need of recovery are always kept, only the oldest finished ones are dropped
+    pruneSessions(keep: number) {
+        const finished = this.data.sessions.filter(s => s.status === 'completed' || s.status === 'recovered');
+        if (finished.length <= keep) return;
+
+        const dropped = new Set(finished.slice(0, finished.length - keep).map(s => s.sessionID));
+        this.data.sessions = this.data.sessions.filter(s => !dropped.has(s.sessionID));
+        this.data.chunks = this.data.chunks.filter(chunk => !dropped.has(chunk.sessionID));
+        this.save();
+    }
+
+    /**
+     * Sessions still marked as recording when the process boots were cut off
+     * by a crash or redeploy. Flag them so they can be told apart from live ones.
+     */
+    markInterruptedSessions(): SessionRecord[] {
+        const interrupted = this.data.sessions.filter(session => session.status === 'recording');
+        interrupted.forEach(session => {
+            session.status = 'interrupted';
+        });
+        if (interrupted.length > 0) {
+            this.save();
+        }
+        return interrupted;
+    }
+
+    // Chunks
+
+    getChunks(sessionID: string): ChunkRecord[] {
+        return this.data.chunks.filter(chunk => chunk.sessionID === sessionID);
+    }
+
+    getChunk(file: string): ChunkRecord | undefined {
+        return this.data.chunks.find(chunk => chunk.file === file);
+    }
+
+    addChunk(chunk: Omit<ChunkRecord, 'createdAt' | 'uploaded'>): ChunkRecord {
+        const record: ChunkRecord = {
+            ...chunk,
+            createdAt: new Date().toISOString(),
+            uploaded: false,
+        };
+        this.data.chunks.push(record);
+        this.save();
+        return record;
+    }
+
+    markChunkUploaded(file: string, key: string, url: string, storage?: string) {
+        const chunk = this.data.chunks.find(c => c.file === file);
+        if (!chunk) return;
+
+        chunk.uploaded = true;
+        chunk.key = key;
+        chunk.url = url;
+        chunk.storage = storage;
+        this.save();
+    }
+
+    // Uploads
+
+    getUploads(): UploadedFile[] {
+        return [...this.data.uploads];
+    }
+
+    saveUploads(uploads: UploadedFile[]) {
+        this.data.uploads = [...uploads];
+        this.save();
+    }
+
+    // Multipart uploads
+
+    getMultipartUpload(bucket: string, key: string, file: string): MultipartUploadRecord | undefined {
+        return this.data.multipartUploads.find(upload =>
+            upload.bucket === bucket && upload.key === key && upload.file === file
+        );
+    }
+
+    saveMultipartUpload(upload: Omit<MultipartUploadRecord, 'createdAt'>) {
+        this.removeMultipartUpload(upload.bucket, upload.key, upload.file);
+        this.data.multipartUploads.push({ ...upload, createdAt: new Date().toISOString() });
+        // Losing the uploadId means starting the upload over, write it out right away
+        this.flush();
+    }
+
+    removeMultipartUpload(bucket: string, key: string, file: string) {
+        this.data.multipartUploads = this.data.multipartUploads.filter(upload =>
+            !(upload.bucket === bucket && upload.key === key && upload.file === file)
+        );
+        this.save();
+    }
+
+    // Upload queue
+
+    getUploadJobs(): UploadJob[] {
+        return this.data.uploadJobs.map(job => ({ ...job }));
+    }
+
+    saveUploadJob(job: UploadJob) {
+        const index = this.data.uploadJobs.findIndex(j => j.id === job.id);
+        if (index >= 0) {
+            this.data.uploadJobs[index] = { ...job };
+        } else {
+            this.data.uploadJobs.push({ ...job });
+        }
+        this.save();
+    }
+
+    removeUploadJob(id: string) {
+        this.data.uploadJobs = this.data.uploadJobs.filter(job => job.id !== id);
+        this.save();
+    }
+
+    // Webhook deliveries
+
+    getWebhookDeliveries(): WebhookDelivery[] {
+        return this.data.webhookDeliveries.map(delivery => ({ ...delivery }));
+    }
+
+    saveWebhookDelivery(delivery: WebhookDelivery) {
+        const index = this.data.webhookDeliveries.findIndex(d => d.id === delivery.id);
+        if (index >= 0) {
+            this.data.webhookDeliveries[index] = { ...delivery };
+        } else {
+            this.data.webhookDeliveries.push({ ...delivery });
+        }
+        this.save();
+    }
+
+    // Pending deliveries are always kept, only the oldest finished ones are dropped
+    pruneWebhookDeliveries(keep: number) {
+        const finished = this.data.webhookDeliveries.filter(d => d.status !== 'pending');
+        if (finished.length <= keep) return;
+
+        const dropped = new Set(finished.slice(0, finished.length - keep).map(d => d.id));
+        this.data.webhookDeliveries = this.data.webhookDeliveries.filter(d => !dropped.has(d.id));
+        this.save();
+    }
+
+    // Audit log
+
+    getAuditLog(): AuditEntry[] {
+        return [...this.data.auditLog];
+    }
+
+    // Only the newest entries are kept
+    addAuditEntry(entry: AuditEntry, keep: number) {
+        this.data.auditLog = [...this.data.auditLog, entry].slice(-keep);
+        this.save();
+    }
+}
+
+export const database = new Database(config.DATABASE.PATH, config.DATABASE.WRITE_DELAY_MS);
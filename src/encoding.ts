@@ -0,0 +1,108 @@
+import { config } from './config';
+import { EncodingProfile } from './types';
+
+// The "default" profile is the encoding recordings always used, ENCODING_PROFILES adds or overrides named ones
+function loadEncodingProfiles(): { [name: string]: EncodingProfile } {
+    return {
+        default: {
+            videoCodec: 'libx264',
+            preset: 'fast',
+            audioCodec: 'aac',
+            extraOptions: ['-i_qfactor 0.71', '-qcomp 0.6'],
+        },
+        ...JSON.parse(config.ENCODING.PROFILES),
+    };
+}
+
+const encodingProfiles = loadEncodingProfiles();
+
+const BITRATE_PATTERN = /^\d+(\.\d+)?[kKmM]?$/;
+
+export function hasEncodingProfile(name: string): boolean {
+    return name in encodingProfiles;
+}
+
+export function getEncodingProfile(name: string = config.ENCODING.DEFAULT_PROFILE): EncodingProfile {
+    const profile = encodingProfiles[name];
+    if (!profile) {
+        throw new Error(`Encoding profile ${name} is not configured`);
+    }
+    return profile;
+}
+
+function validateEncodingProfile(profile: EncodingProfile): string | null {
+    if (!profile || typeof profile !== 'object') return 'profile must be an object';
+
+    const positive = (value: unknown) => typeof value === 'number' && value > 0;
+    for (const field of ['videoCodec', 'preset', 'audioCodec'] as const) {
+        if (profile[field] !== undefined && (typeof profile[field] !== 'string' || !profile[field])) {
+            return `${field} must be a non-empty string`;
+        }
+    }
+    if (profile.crf !== undefined && (typeof profile.crf !== 'number' || profile.crf < 0 || profile.crf > 63)) {
+        return 'crf must be a number between 0 and 63';
+    }
+    for (const field of ['videoBitrate', 'audioBitrate'] as const) {
+        if (profile[field] !== undefined && !BITRATE_PATTERN.test(String(profile[field]))) {
+            return `${field} must look like 2500k or 2M`;
+        }
+    }
+    if (profile.crf !== undefined && profile.videoBitrate !== undefined) {
+        return 'crf and videoBitrate cannot be used together';
+    }
+    for (const field of ['maxWidth', 'maxHeight', 'framerate'] as const) {
+        if (profile[field] !== undefined && !positive(profile[field])) {
+            return `${field} must be a positive number`;
+        }
+    }
+    if (profile.extraOptions !== undefined &&
+        (!Array.isArray(profile.extraOptions) || profile.extraOptions.some(option => typeof option !== 'string'))) {
+        return 'extraOptions must be a list of strings';
+    }
+    return null;
+}
+
+export function validateEncodingProfiles() {
+    if (!hasEncodingProfile(config.ENCODING.DEFAULT_PROFILE)) {
+        throw new Error(`Default encoding profile ${config.ENCODING.DEFAULT_PROFILE} is not configured`);
+    }
+
+    for (const [name, profile] of Object.entries(encodingProfiles)) {
+        const error = validateEncodingProfile(profile);
+        if (error) {
+            throw new Error(`Encoding profile ${name} is invalid: ${error}`);
+        }
+    }
+}
+
+function getScaleFilter(profile: EncodingProfile): string | null {
+    const { maxWidth, maxHeight } = profile;
+    if (maxWidth && maxHeight) {
+        return `scale=w='min(iw,${maxWidth})':h='min(ih,${maxHeight})':force_original_aspect_ratio=decrease:force_divisible_by=2`;
+    }
+    if (maxHeight) return `scale=-2:'min(ih,${maxHeight})'`;
+    if (maxWidth) return `scale='min(iw,${maxWidth})':-2`;
+    return null;
+}
+
+/**
+ * ffmpeg output options for transcoding with a profile. Segmenting and keyframe
+ * placement are left to the caller.
+ */
+export function getEncodingOptions(profile: EncodingProfile): string[] {
+    const options = [
+        '-c:v', profile.videoCodec || 'libx264',
+        '-c:a', profile.audioCodec || 'aac',
+    ];
+
+    if (profile.preset) options.push('-preset', profile.preset);
+    if (profile.crf !== undefined) options.push('-crf', String(profile.crf));
+    if (profile.videoBitrate) options.push('-b:v', profile.videoBitrate);
+    if (profile.audioBitrate) options.push('-b:a', profile.audioBitrate);
+    if (profile.framerate) options.push('-r', String(profile.framerate));
+
+    const scaleFilter = getScaleFilter(profile);
+    if (scaleFilter) options.push('-vf', scaleFilter);
+
+    return [...options, ...(profile.extraOptions || [])];
+}
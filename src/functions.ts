@@ -1,13 +1,11 @@
+import { fetchStreamUrl } from './request';
+import { StreamRequestOptions } from './types';
 
-export async function checkM3U8Availability(m3u8Url: string): Promise<boolean> {
+
+export async function checkM3U8Availability(m3u8Url: string, requestOptions?: StreamRequestOptions): Promise<boolean> {
     let status;
     try {
-        const rawData = await fetch(m3u8Url, {
-            'headers': {
-                'User-Agent': 'Mozilla/5.0',
-                'Accept': '*/*',
-            }
-        });
+        const rawData = await fetchStreamUrl(m3u8Url, requestOptions);
         status = rawData.status;
     } catch (ex) {
         status = 404;
@@ -1,33 +1,156 @@
 import { config } from "./config";
 import { StreamWatcher } from "./watcher";
 import { startServer } from './server';
+import { database } from './database';
+import stateTracker from './stateTracker';
+import globalTracker from './globalTracker';
+import { logger } from './utils/logger';
+import { collectOrphanedSessions, recoverSessions } from './recovery';
+import { validateSchedule } from './schedule';
+import { hasStorage, validateStorageConfigs } from './storage';
+import { hasEncodingProfile, validateEncodingProfiles } from './encoding';
+import { validatePreferredQuality } from './m3u8';
+import { validateRequestOptions } from './request';
+import {
+    CodecMode,
+    HLSArchiveOptions,
+    OutputMode,
+    PreferredQuality,
+    ReconnectOptions,
+    RenditionConfig,
+    StreamRequestOptions,
+    StreamSchedule,
+} from './types';
+import { registerUploadHandlers, validateArchiveOptions, validateReconnectOptions, validateRenditions } from './stream';
+import { uploadQueue } from './uploadQueue';
+import { validateWebhookEndpoints, webhookQueue } from './webhook';
+import { isAuthEnabled, validateAuthConfig } from './auth';
 
 async function main() {
+    validateStorageConfigs();
+    validateEncodingProfiles();
+    validateWebhookEndpoints();
+    validateAuthConfig();
+    if (!isAuthEnabled()) {
+        logger.log('No API keys, users or OIDC issuer configured, the HTTP server is open to anyone who can reach it');
+    }
+    database.load();
+
+    const interruptedSessions = database.markInterruptedSessions();
+    interruptedSessions.forEach(session => {
+        logger.log(`[${session.name}] Session ${session.sessionID} was interrupted by a restart`);
+    });
+
+    // Streams added through the API are persisted; STREAM_DATA only seeds ones we don't know yet
+    const savedStreams = database.getStreams();
+    const envStreams = (JSON.parse(config.STREAM.STREAM_DATA) as {
+        name: string;
+        url: string;
+        schedule?: StreamSchedule;
+        storage?: string;
+        outputMode?: OutputMode;
+        hls?: HLSArchiveOptions;
+        codecMode?: CodecMode;
+        encodingProfile?: string;
+        renditions?: RenditionConfig[];
+        preferredQuality?: PreferredQuality;
+        request?: StreamRequestOptions;
+        reconnect?: ReconnectOptions;
+    }[]).map(stream => {
+        return ({
+            name: stream.name,
+            url: stream.url,
+            uploadToS3: true,
+            chunkDuration: config.STREAM.CHUNK_DURATION_S,
+            schedule: stream.schedule,
+            storage: stream.storage,
+            outputMode: stream.outputMode,
+            hls: stream.hls,
+            codecMode: stream.codecMode,
+            encodingProfile: stream.encodingProfile,
+            renditions: stream.renditions,
+            preferredQuality: stream.preferredQuality,
+            request: stream.request,
+            reconnect: stream.reconnect,
+        })
+    });
+    const streams = [
+        ...savedStreams,
+        ...envStreams.filter(stream => !savedStreams.some(saved => saved.name === stream.name)),
+    ];
+    for (const stream of streams) {
+        const scheduleError = stream.schedule ? validateSchedule(stream.schedule) : null;
+        if (scheduleError) {
+            throw new Error(`Invalid schedule for stream ${stream.name}: ${scheduleError}`);
+        }
+        if (stream.storage && !hasStorage(stream.storage)) {
+            throw new Error(`Stream ${stream.name} uses unknown storage backend ${stream.storage}`);
+        }
+        if (stream.codecMode && stream.codecMode !== 'copy' && stream.codecMode !== 'transcode') {
+            throw new Error(`Invalid codecMode for stream ${stream.name}: ${stream.codecMode}`);
+        }
+        if (stream.encodingProfile && !hasEncodingProfile(stream.encodingProfile)) {
+            throw new Error(`Stream ${stream.name} uses unknown encoding profile ${stream.encodingProfile}`);
+        }
+        const qualityError = validatePreferredQuality(stream.preferredQuality);
+        if (qualityError) {
+            throw new Error(`Invalid preferredQuality for stream ${stream.name}: ${qualityError}`);
+        }
+        const requestError = validateRequestOptions(stream.request);
+        if (requestError) {
+            throw new Error(`Invalid request options for stream ${stream.name}: ${requestError}`);
+        }
+        const renditionsError = validateRenditions(stream.renditions);
+        if (renditionsError) {
+            throw new Error(`Invalid renditions for stream ${stream.name}: ${renditionsError}`);
+        }
+        const reconnectError = validateReconnectOptions(stream.reconnect);
+        if (reconnectError) {
+            throw new Error(`Invalid reconnect settings for stream ${stream.name}: ${reconnectError}`);
+        }
+        const archiveError = validateArchiveOptions(stream);
+        if (archiveError) {
+            throw new Error(`Invalid output settings for stream ${stream.name}: ${archiveError}`);
+        }
+    }
+    database.saveStreams(streams);
+
+    globalTracker.setValue({
+        uploadedFiles: database.getUploads().slice(-config.DATABASE.UPLOAD_HISTORY_SIZE),
+    });
+    globalTracker.subscribe(value => database.saveUploads(value.uploadedFiles));
+
     const streamWatcher = new StreamWatcher(
-        (JSON.parse(config.STREAM.STREAM_DATA) as {
-            name: string;
-            url: string;
-        }[]).map(stream => {
-            return ({
-                name: stream.name,
-                url: stream.url,
-                uploadToS3: true,
-                chunkDuration: config.STREAM.CHUNK_DURATION_S,
-            })
-        }),
+        streams,
         "recordings",
         config.STREAM.CHECK_INTERVAL_MS,
         true
     )
 
+    registerUploadHandlers();
+    uploadQueue.start();
+    webhookQueue.start();
+
+    // Pick up whatever a crash left behind before new sessions start writing to temp/
+    const orphanedSessions = await collectOrphanedSessions("recordings", streams);
+    if (orphanedSessions.length > 0) {
+        logger.log(`Recovering ${orphanedSessions.length} interrupted session(s)`);
+        recoverSessions(orphanedSessions).catch(error => {
+            logger.log(`Error recovering interrupted sessions: ${error}`);
+        });
+    }
+
     streamWatcher.start();
 
     // Start the Express server
-    startServer();
+    startServer(streamWatcher);
 
     // Handle graceful shutdown
     process.on('SIGTERM', () => {
         streamWatcher.stop();
+        uploadQueue.stop();
+        webhookQueue.stop();
+        database.flush();
         process.exit(0);
     });
 
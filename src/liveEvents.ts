@@ -0,0 +1,188 @@
+import { Request, Response } from 'express';
+import { getIdentity, hasRole } from './auth';
+import { config } from './config';
+import { database } from './database';
+import globalTracker from './globalTracker';
+import stateTracker from './stateTracker';
+import { UploadedFile } from './types';
+import { uploadQueue } from './uploadQueue';
+import { systemSampler } from './usage';
+import { logger } from './utils/logger';
+
+type DashboardState = { [field: string]: any };
+
+function getPingHistoryString(pingHistory: boolean[]): string {
+    return pingHistory.map(active => active ? 'O' : '_').join('');
+}
+
+// Sources can carry tokens in the query or credentials ahead of the host, viewers get neither
+function redactUrl(url: string): string {
+    try {
+        const parsed = new URL(url);
+        return `${parsed.protocol}//${parsed.host}${parsed.pathname}${parsed.search ? '?…' : ''}`;
+    } catch {
+        return '';
+    }
+}
+
+function redactStates(states: { [streamName: string]: DashboardState }): { [streamName: string]: DashboardState } {
+    const redacted: { [streamName: string]: DashboardState } = {};
+    for (const streamName in states) {
+        redacted[streamName] = { ...states[streamName], url: redactUrl(states[streamName].url) };
+    }
+    return redacted;
+}
+
+// Stream states the way the dashboard shows them: ping history as a string, with upload queue counts
+export function getDashboardStates(): { [streamName: string]: DashboardState } {
+    const states = JSON.parse(JSON.stringify(stateTracker.getValue() || {}));
+    const uploadStats = uploadQueue.getStats();
+
+    for (const streamName in states) {
+        states[streamName].pingHistory = getPingHistoryString(states[streamName].pingHistory);
+        states[streamName].uploadQueue = uploadStats[streamName] || { pending: 0, failed: 0 };
+    }
+    return states;
+}
+
+// Only admins see source URLs as they are, the same way /api/streams keeps request options to them
+export async function getStatusSnapshot(admin: boolean) {
+    const states = getDashboardStates();
+    const sessions = database.getSessions().slice(-20);
+    return {
+        timestamp: new Date().toISOString(),
+        states: admin ? states : redactStates(states),
+        system: await systemSampler.sample(),
+        global: globalTracker.getValue(),
+        sessions: admin ? sessions : sessions.map(session => ({ ...session, url: redactUrl(session.url) })),
+    };
+}
+
+/**
+ * Server-sent events for the dashboard. A client gets a `snapshot` shaped like
+ * /api/status, then `state` with the streams that changed (and the ones removed),
+ * `upload` for each finished upload, `log` lines and periodic `system` samples. The
+ * trackers are only watched while somebody is connected, and every client is fed from
+ * the same diffs and samples, so an extra tab costs a socket and nothing more. Log
+ * lines only go to admins, other roles get source URLs redacted.
+ */
+class LiveEvents {
+    private clients = new Map<Response, boolean>();  // Whether the client is an admin
+    private unsubscribers: (() => void)[] = [];
+    private sentStates = new Map<string, string>();
+    private knownUploads = new Set<UploadedFile>();
+    private stateTimeout: NodeJS.Timeout | null = null;
+    private systemInterval: NodeJS.Timeout | null = null;
+    private heartbeatInterval: NodeJS.Timeout | null = null;
+
+    async connect(req: Request, res: Response) {
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            // Keeps nginx from buffering the stream
+            'X-Accel-Buffering': 'no',
+        });
+        res.flushHeaders();
+
+        const admin = hasRole(getIdentity(res), 'admin');
+        if (this.clients.size === 0) this.start();
+        this.clients.set(res, admin);
+        req.on('close', () => {
+            this.clients.delete(res);
+            if (this.clients.size === 0) this.stop();
+        });
+
+        const snapshot = await getStatusSnapshot(admin);
+        if (this.clients.has(res)) this.write(res, 'snapshot', snapshot);
+    }
+
+    private start() {
+        // Diffs are taken against what clients already have, new ones start from a snapshot
+        this.sentStates = new Map(
+            Object.entries(getDashboardStates()).map(([name, state]) => [name, JSON.stringify(state)])
+        );
+        this.knownUploads = new Set(globalTracker.getValue()?.uploadedFiles ?? []);
+
+        this.unsubscribers = [
+            stateTracker.subscribe(() => this.scheduleStates()),
+            globalTracker.subscribe(value => this.publishUploads(value.uploadedFiles)),
+            // Only the message, attached data can be anything up to circular objects
+            logger.subscribe(entry => this.broadcast('log', { timestamp: entry.timestamp, message: entry.message }, null)),
+        ];
+        this.systemInterval = setInterval(() => {
+            this.publishSystem();
+        }, config.EVENTS.SYSTEM_SAMPLE_MS);
+        this.heartbeatInterval = setInterval(() => {
+            this.clients.forEach((_admin, res) => res.write(': heartbeat\n\n'));
+        }, config.EVENTS.HEARTBEAT_MS);
+    }
+
+    private stop() {
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+        for (const timer of [this.stateTimeout, this.systemInterval, this.heartbeatInterval]) {
+            if (timer) clearTimeout(timer);
+        }
+        this.stateTimeout = null;
+        this.systemInterval = null;
+        this.heartbeatInterval = null;
+    }
+
+    private write(res: Response, event: string, data: unknown) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+
+    // Clients other than admins get viewerData, nothing at all when it is null
+    private broadcast(event: string, data: unknown, viewerData: unknown = data) {
+        this.clients.forEach((admin, res) => {
+            if (admin) this.write(res, event, data);
+            else if (viewerData !== null) this.write(res, event, viewerData);
+        });
+    }
+
+    private scheduleStates() {
+        if (this.stateTimeout) return;
+        this.stateTimeout = setTimeout(() => {
+            this.stateTimeout = null;
+            this.publishStates();
+        }, config.EVENTS.STATE_THROTTLE_MS);
+    }
+
+    private publishStates() {
+        const states = getDashboardStates();
+        const changed: { [streamName: string]: DashboardState } = {};
+        const removed = [...this.sentStates.keys()].filter(name => !(name in states));
+
+        for (const [name, state] of Object.entries(states)) {
+            const serialized = JSON.stringify(state);
+            if (this.sentStates.get(name) !== serialized) {
+                changed[name] = state;
+                this.sentStates.set(name, serialized);
+            }
+        }
+        removed.forEach(name => this.sentStates.delete(name));
+
+        if (Object.keys(changed).length > 0 || removed.length > 0) {
+            this.broadcast('state', { states: changed, removed }, { states: redactStates(changed), removed });
+        }
+    }
+
+    private publishUploads(uploadedFiles: UploadedFile[]) {
+        const added = uploadedFiles.filter(file => !this.knownUploads.has(file));
+        this.knownUploads = new Set(uploadedFiles);
+        added.forEach(file => this.broadcast('upload', file));
+    }
+
+    private async publishSystem() {
+        try {
+            this.broadcast('system', await systemSampler.sample());
+        } catch (err) {
+            logger.log(`Failed to sample system usage: ${err}`);
+        }
+        // Upload queue counts change without the state tracker hearing about it
+        this.publishStates();
+    }
+}
+
+export const liveEvents = new LiveEvents();
@@ -0,0 +1,106 @@
+import { config } from './config';
+import { fetchM3U8, MediaPlaylist, selectVariant } from './m3u8';
+import { LivenessState, StreamRequestOptions } from './types';
+
+type LivenessListener = (url: string, state: LivenessState) => void;
+
+function getStallThresholdMs(playlist: MediaPlaylist): number {
+    return Math.max(
+        config.LIVENESS.STALL_AFTER_S * 1000,
+        playlist.targetDuration * config.LIVENESS.STALL_TARGET_DURATIONS * 1000
+    );
+}
+
+// When the newest segment ends according to EXT-X-PROGRAM-DATE-TIME, if the playlist has it
+function getNewestSegmentEnd(playlist: MediaPlaylist): number | null {
+    const newest = playlist.segments[playlist.segments.length - 1];
+    if (!newest || newest.programDateTime === undefined) return null;
+    return newest.programDateTime + newest.duration * 1000;
+}
+
+/**
+ * Decides whether a source is really live from its media playlist rather than the HTTP
+ * status alone: the media sequence has to keep moving, EXT-X-ENDLIST means the broadcast
+ * is over. State is kept per playlist URL, so the watcher and running recordings share it.
+ */
+class LivenessMonitor {
+    private states = new Map<string, LivenessState>();
+    private listeners: LivenessListener[] = [];
+
+    get(url: string): LivenessState | undefined {
+        return this.states.get(url);
+    }
+
+    subscribe(listener: LivenessListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    async check(url: string, requestOptions?: StreamRequestOptions): Promise<LivenessState> {
+        const previous = this.states.get(url);
+        const now = Date.now();
+        let state: LivenessState;
+
+        try {
+            let playlist = await fetchM3U8(url, requestOptions);
+            if (playlist.type === 'master') {
+                // Every variant advances together, the smallest one is the cheapest to poll
+                const variant = selectVariant(playlist.variants, 'lowest');
+                if (!variant) throw new Error('Master playlist has no variants');
+                playlist = await fetchM3U8(variant.uri, requestOptions);
+                if (playlist.type !== 'media') throw new Error('Variant is not a media playlist');
+            }
+
+            state = this.evaluate(playlist, previous, now);
+        } catch (err) {
+            state = {
+                status: 'unreachable',
+                mediaSequence: previous?.mediaSequence ?? null,
+                lastProgressAt: previous?.lastProgressAt ?? null,
+                checkedAt: now,
+                error: String(err),
+            };
+        }
+
+        this.states.set(url, state);
+        this.listeners.forEach(listener => listener(url, state));
+        return state;
+    }
+
+    private evaluate(playlist: MediaPlaylist, previous: LivenessState | undefined, now: number): LivenessState {
+        const mediaSequence = playlist.mediaSequence + Math.max(playlist.segments.length - 1, 0);
+        const ended = playlist.endList || playlist.playlistType === 'VOD';
+
+        let lastProgressAt: number;
+        if (!previous || previous.mediaSequence === null) {
+            // First look: the newest segment's timestamp tells how fresh the playlist is
+            lastProgressAt = getNewestSegmentEnd(playlist) ?? now;
+        } else if (mediaSequence !== previous.mediaSequence) {
+            lastProgressAt = now;
+        } else {
+            lastProgressAt = previous.lastProgressAt ?? now;
+        }
+
+        let status: LivenessState['status'] = 'live';
+        if (ended) {
+            status = 'ended';
+        } else if (now - lastProgressAt > getStallThresholdMs(playlist)) {
+            status = 'stalled';
+        }
+
+        return { status, mediaSequence, lastProgressAt, checkedAt: now };
+    }
+}
+
+export const livenessMonitor = new LivenessMonitor();
+
+// A recording stops once its source ended, or has been stalled or unreachable for too long
+export function hasSourceEnded(state: LivenessState): boolean {
+    if (state.status === 'ended') return true;
+    if (state.status === 'live') return false;
+
+    return state.lastProgressAt === null ||
+        state.checkedAt - state.lastProgressAt > config.LIVENESS.END_AFTER_STALL_S * 1000;
+}
@@ -0,0 +1,295 @@
+import { fetchStreamUrl } from './request';
+import { PreferredQuality, QualitySelector, StreamRequestOptions } from './types';
+
+export interface M3U8Variant {
+    uri: string;  // Absolute
+    bandwidth: number;
+    averageBandwidth?: number;
+    resolution?: { width: number; height: number };
+    codecs: string[];
+    frameRate?: number;
+    audio?: string;      // GROUP-ID of the alternate audio renditions
+    subtitles?: string;  // GROUP-ID of the subtitle renditions
+}
+
+export interface M3U8Media {
+    type: 'AUDIO' | 'VIDEO' | 'SUBTITLES' | 'CLOSED-CAPTIONS';
+    groupId: string;
+    name: string;
+    language?: string;
+    default: boolean;
+    autoselect: boolean;
+    uri?: string;  // Absolute, missing when the rendition is muxed into the variant
+}
+
+export interface M3U8Segment {
+    uri: string;  // Absolute
+    duration: number;
+    sequence: number;
+    discontinuity: boolean;
+    programDateTime?: number;  // Wall clock time of the segment start, in ms
+}
+
+export interface MasterPlaylist {
+    type: 'master';
+    variants: M3U8Variant[];
+    media: M3U8Media[];
+}
+
+export interface MediaPlaylist {
+    type: 'media';
+    targetDuration: number;
+    mediaSequence: number;
+    playlistType?: 'VOD' | 'EVENT';
+    endList: boolean;
+    segments: M3U8Segment[];
+}
+
+export type M3U8Playlist = MasterPlaylist | MediaPlaylist;
+
+export interface StreamSelection {
+    url: string;
+    audioUrl?: string;  // Alternate audio playlist to record alongside the video
+    variant?: M3U8Variant;
+    audio?: M3U8Media;
+}
+
+/**
+ * Split an attribute list (`KEY=value,KEY="quoted, value"`) into a map. Quotes are
+ * stripped, values are left as strings.
+ */
+export function parseAttributes(list: string): { [key: string]: string } {
+    const attributes: { [key: string]: string } = {};
+    const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(list))) {
+        attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+    }
+    return attributes;
+}
+
+function resolveUri(uri: string, baseUrl: string): string {
+    return new URL(uri, baseUrl).href;
+}
+
+function parseResolution(value: string | undefined): M3U8Variant['resolution'] {
+    const match = value && /^(\d+)x(\d+)$/.exec(value);
+    return match ? { width: Number(match[1]), height: Number(match[2]) } : undefined;
+}
+
+function parseMaster(lines: string[], baseUrl: string): MasterPlaylist {
+    const variants: M3U8Variant[] = [];
+    const media: M3U8Media[] = [];
+    let pending: { [key: string]: string } | null = null;
+
+    for (const line of lines) {
+        if (line.startsWith('#EXT-X-STREAM-INF:')) {
+            pending = parseAttributes(line.slice('#EXT-X-STREAM-INF:'.length));
+        } else if (line.startsWith('#EXT-X-MEDIA:')) {
+            const attributes = parseAttributes(line.slice('#EXT-X-MEDIA:'.length));
+            media.push({
+                type: attributes.TYPE as M3U8Media['type'],
+                groupId: attributes['GROUP-ID'],
+                name: attributes.NAME,
+                language: attributes.LANGUAGE,
+                default: attributes.DEFAULT === 'YES',
+                autoselect: attributes.AUTOSELECT === 'YES',
+                uri: attributes.URI ? resolveUri(attributes.URI, baseUrl) : undefined,
+            });
+        } else if (pending && !line.startsWith('#')) {
+            variants.push({
+                uri: resolveUri(line, baseUrl),
+                bandwidth: Number(pending.BANDWIDTH) || 0,
+                averageBandwidth: pending['AVERAGE-BANDWIDTH'] ? Number(pending['AVERAGE-BANDWIDTH']) : undefined,
+                resolution: parseResolution(pending.RESOLUTION),
+                codecs: pending.CODECS ? pending.CODECS.split(',').map(codec => codec.trim()) : [],
+                frameRate: pending['FRAME-RATE'] ? Number(pending['FRAME-RATE']) : undefined,
+                audio: pending.AUDIO,
+                subtitles: pending.SUBTITLES,
+            });
+            pending = null;
+        }
+    }
+
+    return { type: 'master', variants, media };
+}
+
+function parseMedia(lines: string[], baseUrl: string): MediaPlaylist {
+    const playlist: MediaPlaylist = {
+        type: 'media',
+        targetDuration: 0,
+        mediaSequence: 0,
+        endList: false,
+        segments: [],
+    };
+    let duration: number | null = null;
+    let discontinuity = false;
+    let programDateTime: number | undefined;
+
+    for (const line of lines) {
+        if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+            playlist.targetDuration = Number(line.split(':')[1]);
+        } else if (line.startsWith('#EXT-X-MEDIA-SEQUENCE:')) {
+            playlist.mediaSequence = Number(line.split(':')[1]);
+        } else if (line.startsWith('#EXT-X-PLAYLIST-TYPE:')) {
+            playlist.playlistType = line.split(':')[1] as MediaPlaylist['playlistType'];
+        } else if (line === '#EXT-X-ENDLIST') {
+            playlist.endList = true;
+        } else if (line === '#EXT-X-DISCONTINUITY') {
+            discontinuity = true;
+        } else if (line.startsWith('#EXT-X-PROGRAM-DATE-TIME:')) {
+            const time = Date.parse(line.slice('#EXT-X-PROGRAM-DATE-TIME:'.length));
+            programDateTime = isNaN(time) ? undefined : time;
+        } else if (line.startsWith('#EXTINF:')) {
+            duration = parseFloat(line.slice('#EXTINF:'.length));
+        } else if (duration !== null && !line.startsWith('#')) {
+            playlist.segments.push({
+                uri: resolveUri(line, baseUrl),
+                duration,
+                sequence: playlist.mediaSequence + playlist.segments.length,
+                discontinuity,
+                programDateTime,
+            });
+            duration = null;
+            discontinuity = false;
+            programDateTime = undefined;
+        }
+    }
+
+    return playlist;
+}
+
+export function parseM3U8(text: string, baseUrl: string): M3U8Playlist {
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line);
+    if (lines[0] !== '#EXTM3U') {
+        throw new Error('Not an m3u8 playlist, #EXTM3U header missing');
+    }
+
+    // Media playlists list segments, master playlists list variants
+    const isMaster = lines.some(line => line.startsWith('#EXT-X-STREAM-INF:'));
+    return isMaster ? parseMaster(lines, baseUrl) : parseMedia(lines, baseUrl);
+}
+
+export async function fetchM3U8(url: string, requestOptions?: StreamRequestOptions): Promise<M3U8Playlist> {
+    const response = await fetchStreamUrl(url, requestOptions, 'application/vnd.apple.mpegurl, application/x-mpegurl, */*');
+    if (!response.ok) {
+        throw new Error(`Playlist request failed with status ${response.status}`);
+    }
+
+    // Redirects change the base that relative URIs resolve against
+    return parseM3U8(await response.text(), response.url || url);
+}
+
+function toSelector(quality: PreferredQuality): QualitySelector {
+    if (quality === 'highest' || quality === 'lowest') return { pick: quality };
+    if (typeof quality === 'number') return { bandwidth: quality };
+    return quality;
+}
+
+function describeVariant(variant: M3U8Variant): string {
+    const resolution = variant.resolution ? `${variant.resolution.height}p, ` : '';
+    return `${resolution}${variant.bandwidth / 1000}kbps${variant.codecs.length ? ` (${variant.codecs.join(', ')})` : ''}`;
+}
+
+/**
+ * Narrow the variants down with the selector's filters, then pick the closest bandwidth
+ * or the highest/lowest one. Filters that rule out every variant are ignored.
+ */
+export function selectVariant(variants: M3U8Variant[], quality: PreferredQuality): M3U8Variant | null {
+    if (variants.length === 0) return null;
+
+    const selector = toSelector(quality);
+    const height = (variant: M3U8Variant) => variant.resolution?.height ?? 0;
+
+    let candidates = variants.filter(variant =>
+        (selector.minBandwidth === undefined || variant.bandwidth >= selector.minBandwidth) &&
+        (selector.maxBandwidth === undefined || variant.bandwidth <= selector.maxBandwidth) &&
+        (selector.minHeight === undefined || height(variant) >= selector.minHeight) &&
+        (selector.maxHeight === undefined || (variant.resolution !== undefined && height(variant) <= selector.maxHeight)) &&
+        (selector.codec === undefined || variant.codecs.some(codec => codec.startsWith(selector.codec as string)))
+    );
+    if (candidates.length === 0) candidates = variants;
+
+    const sorted = [...candidates].sort((a, b) => a.bandwidth - b.bandwidth || height(a) - height(b));
+    if (selector.bandwidth !== undefined) {
+        const target = selector.bandwidth;
+        return sorted.reduce((prev, curr) =>
+            Math.abs(curr.bandwidth - target) < Math.abs(prev.bandwidth - target) ? curr : prev
+        );
+    }
+    return selector.pick === 'highest' ? sorted[sorted.length - 1] : sorted[0];
+}
+
+/**
+ * Alternate audio for a variant: the rendition matching the selector's language or
+ * name, otherwise the group's default. Null when the audio is muxed into the variant.
+ */
+export function selectAudio(playlist: MasterPlaylist, variant: M3U8Variant, quality: PreferredQuality): M3U8Media | null {
+    if (!variant.audio) return null;
+
+    const group = playlist.media.filter(media => media.type === 'AUDIO' && media.groupId === variant.audio);
+    const wanted = toSelector(quality).audio;
+    const matches = (media: M3U8Media) =>
+        !!wanted &&
+        (wanted.language === undefined || media.language?.toLowerCase().startsWith(wanted.language.toLowerCase())) &&
+        (wanted.name === undefined || media.name === wanted.name);
+
+    const audio = group.find(matches) || group.find(media => media.default) || group[0];
+    return audio && audio.uri ? audio : null;
+}
+
+export async function selectStream(
+    url: string,
+    quality: PreferredQuality,
+    requestOptions?: StreamRequestOptions
+): Promise<StreamSelection> {
+    const playlist = await fetchM3U8(url, requestOptions);
+    if (playlist.type === 'media') return { url };
+
+    const variant = selectVariant(playlist.variants, quality);
+    if (!variant) return { url };
+
+    const audio = selectAudio(playlist, variant, quality);
+    return { url: variant.uri, audioUrl: audio?.uri, variant, audio: audio || undefined };
+}
+
+export function describeSelection(selection: StreamSelection): string {
+    if (!selection.variant) return 'media playlist, no variants to choose from';
+
+    const audio = selection.audio
+        ? ` with audio ${selection.audio.name}${selection.audio.language ? ` (${selection.audio.language})` : ''}`
+        : '';
+    return `${describeVariant(selection.variant)}${audio}`;
+}
+
+export function validatePreferredQuality(quality: unknown): string | null {
+    if (quality === undefined || quality === 'highest' || quality === 'lowest') return null;
+    if (typeof quality === 'number') return quality > 0 ? null : 'preferredQuality bandwidth must be positive';
+    if (!quality || typeof quality !== 'object' || Array.isArray(quality)) {
+        return 'preferredQuality must be highest, lowest, a bandwidth or a selector object';
+    }
+
+    const selector = quality as QualitySelector;
+    if (selector.pick !== undefined && selector.pick !== 'highest' && selector.pick !== 'lowest') {
+        return 'preferredQuality.pick must be highest or lowest';
+    }
+    for (const field of ['bandwidth', 'minBandwidth', 'maxBandwidth', 'minHeight', 'maxHeight'] as const) {
+        if (selector[field] !== undefined && (typeof selector[field] !== 'number' || (selector[field] as number) <= 0)) {
+            return `preferredQuality.${field} must be a positive number`;
+        }
+    }
+    if (selector.codec !== undefined && (typeof selector.codec !== 'string' || !selector.codec)) {
+        return 'preferredQuality.codec must be a codec name such as avc1 or hvc1';
+    }
+    if (selector.audio !== undefined) {
+        if (!selector.audio || typeof selector.audio !== 'object') return 'preferredQuality.audio must be an object';
+        if (selector.audio.language !== undefined && typeof selector.audio.language !== 'string') {
+            return 'preferredQuality.audio.language must be a string';
+        }
+        if (selector.audio.name !== undefined && typeof selector.audio.name !== 'string') {
+            return 'preferredQuality.audio.name must be a string';
+        }
+    }
+    return null;
+}
@@ -0,0 +1,229 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from './config';
+import { database } from './database';
+import { getStorage } from './storage';
+import { SessionOutput, SessionRecord, SessionStatus } from './types';
+import { logger } from './utils/logger';
+
+const SESSION_STATUSES: SessionStatus[] = ['recording', 'completed', 'failed', 'interrupted', 'recovered'];
+
+// Filters of GET /api/recordings, all optional and given as query strings
+export interface RecordingQuery {
+    stream?: string;        // Exact stream name
+    search?: string;        // Part of the stream name or session ID
+    status?: SessionStatus;
+    from?: string;          // Sessions started at or after this time
+    to?: string;            // Sessions started before this time
+    minDuration?: number;   // Seconds
+    maxDuration?: number;
+    page?: number;          // Starts at 1
+    pageSize?: number;
+}
+
+export interface RecordingSummary {
+    sessionID: string;
+    name: string;
+    status: SessionStatus;
+    startedAt: string;
+    endedAt: string | null;
+    durationSeconds: number;
+    chunkCount: number;
+    size: number;  // Bytes of all chunks
+    outputs: Pick<SessionOutput, 'format' | 'rendition' | 'size'>[];
+    gapCount: number;
+    errorCount: number;
+}
+
+export interface RecordingPage {
+    total: number;
+    page: number;
+    pageSize: number;
+    recordings: RecordingSummary[];
+}
+
+function getDurationSeconds(session: SessionRecord): number {
+    const end = session.endedAt ? Date.parse(session.endedAt) : Date.now();
+    return Math.max(0, Math.round((end - Date.parse(session.startedAt)) / 1000));
+}
+
+function summarize(session: SessionRecord): RecordingSummary {
+    const chunks = database.getChunks(session.sessionID);
+    return {
+        sessionID: session.sessionID,
+        name: session.name,
+        status: session.status,
+        startedAt: session.startedAt,
+        endedAt: session.endedAt,
+        durationSeconds: getDurationSeconds(session),
+        chunkCount: chunks.length,
+        size: chunks.reduce((sum, chunk) => sum + chunk.size, 0),
+        outputs: (session.outputs || []).map(({ format, rendition, size }) => ({ format, rendition, size })),
+        gapCount: session.gaps?.length ?? 0,
+        errorCount: session.errors?.length ?? 0,
+    };
+}
+
+/**
+ * Query strings come in as strings, numbers are converted here. Returns what is wrong
+ * with the query as a string.
+ */
+export function parseRecordingQuery(raw: { [name: string]: unknown }): RecordingQuery | string {
+    const query: RecordingQuery = {};
+    const text = (name: string) => typeof raw[name] === 'string' && raw[name] ? raw[name] as string : undefined;
+
+    query.stream = text('stream');
+    query.search = text('search');
+
+    const status = text('status');
+    if (status !== undefined) {
+        if (!SESSION_STATUSES.includes(status as SessionStatus)) {
+            return `status must be one of ${SESSION_STATUSES.join(', ')}`;
+        }
+        query.status = status as SessionStatus;
+    }
+
+    for (const field of ['from', 'to'] as const) {
+        const value = text(field);
+        if (value !== undefined && isNaN(Date.parse(value))) return `${field} must be a date`;
+        query[field] = value;
+    }
+
+    for (const field of ['minDuration', 'maxDuration', 'page', 'pageSize'] as const) {
+        const value = text(field);
+        if (value === undefined) continue;
+
+        const number = Number(value);
+        if (!Number.isFinite(number) || number < 0) return `${field} must be a non-negative number`;
+        if ((field === 'page' || field === 'pageSize') && (!Number.isInteger(number) || number < 1)) {
+            return `${field} must be a positive integer`;
+        }
+        query[field] = number;
+    }
+    if (query.pageSize !== undefined && query.pageSize > config.RECORDINGS.MAX_PAGE_SIZE) {
+        return `pageSize can be at most ${config.RECORDINGS.MAX_PAGE_SIZE}`;
+    }
+    return query;
+}
+
+// Newest sessions first
+export function listRecordings(query: RecordingQuery = {}): RecordingPage {
+    const from = query.from ? Date.parse(query.from) : null;
+    const to = query.to ? Date.parse(query.to) : null;
+    const search = query.search?.toLowerCase();
+
+    const matches = database.getSessions().filter(session => {
+        const startedAt = Date.parse(session.startedAt);
+        const duration = getDurationSeconds(session);
+        return (query.stream === undefined || session.name === query.stream) &&
+            (search === undefined ||
+                session.name.toLowerCase().includes(search) ||
+                session.sessionID.toLowerCase().includes(search)) &&
+            (query.status === undefined || session.status === query.status) &&
+            (from === null || startedAt >= from) &&
+            (to === null || startedAt < to) &&
+            (query.minDuration === undefined || duration >= query.minDuration) &&
+            (query.maxDuration === undefined || duration <= query.maxDuration);
+    });
+    matches.sort((a, b) => Date.parse(b.startedAt) - Date.parse(a.startedAt));
+
+    const page = query.page || 1;
+    const pageSize = query.pageSize || config.RECORDINGS.PAGE_SIZE;
+    return {
+        total: matches.length,
+        page,
+        pageSize,
+        recordings: matches.slice((page - 1) * pageSize, page * pageSize).map(summarize),
+    };
+}
+
+// A backend that has since been removed from the config leaves the file without a URL
+async function getFreshUrl(key: string, storage?: string): Promise<string | null> {
+    try {
+        return await getStorage(storage).getUrl(key, config.RECORDINGS.URL_EXPIRY_S);
+    } catch (err) {
+        logger.log(`Could not sign a URL for ${key}: ${err}`);
+        return null;
+    }
+}
+
+function getRecordingPlaylistPath(sessionID: string, rendition?: string): string {
+    const query = rendition ? `?rendition=${encodeURIComponent(rendition)}` : '';
+    return `/api/recordings/${encodeURIComponent(sessionID)}/playlist.m3u8${query}`;
+}
+
+/**
+ * A session with freshly signed URLs for its chunks and archives. HLS archives get a
+ * `playUrl` pointing at getRecordingPlaylist, since the stored playlist references its
+ * segments with links that may have expired.
+ */
+export async function getRecording(sessionID: string) {
+    const session = database.getSession(sessionID);
+    if (!session) return null;
+
+    const chunks = await Promise.all(database.getChunks(sessionID).map(async chunk => ({
+        file: path.basename(chunk.file),
+        size: chunk.size,
+        createdAt: chunk.createdAt,
+        uploaded: chunk.uploaded,
+        url: chunk.uploaded && chunk.key ? await getFreshUrl(chunk.key, chunk.storage) : null,
+    })));
+
+    const outputs = await Promise.all((session.outputs || []).map(async output => {
+        const url = await getFreshUrl(output.key, output.storage);
+        return {
+            format: output.format,
+            rendition: output.rendition,
+            size: output.size,
+            uploadedAt: output.uploadedAt,
+            url,
+            playUrl: output.format === 'hls' ? getRecordingPlaylistPath(sessionID, output.rendition) : url,
+            manifestUrl: output.manifestKey ? await getFreshUrl(output.manifestKey, output.storage) : null,
+        };
+    }));
+
+    return {
+        ...summarize(session),
+        url: session.url,
+        encoding: session.encoding,
+        renditions: session.renditions,
+        gaps: session.gaps || [],
+        errors: session.errors || [],
+        chunks,
+        outputs,
+        urlsExpireAt: new Date(Date.now() + config.RECORDINGS.URL_EXPIRY_S * 1000).toISOString(),
+    };
+}
+
+// Segment URIs in the playlist are relative, or presigned when playlistUrls was "presigned"
+function getSegmentName(uri: string): string {
+    if (!/^[a-z]+:\/\//i.test(uri)) return path.posix.basename(uri);
+    return decodeURIComponent(path.posix.basename(new URL(uri).pathname));
+}
+
+/**
+ * The HLS playlist of a session with every segment signed again, so an archive stays
+ * playable after the links in the uploaded playlist expired. Read from the local copy of
+ * the archive, null when the session, the archive or the local copy is gone.
+ */
+export async function getRecordingPlaylist(sessionID: string, rendition?: string): Promise<string | null> {
+    const output = database.getSession(sessionID)?.outputs
+        ?.find(o => o.format === 'hls' && o.rendition === rendition);
+    if (!output || !fs.existsSync(output.file)) return null;
+
+    const keyPrefix = output.key.slice(0, output.key.lastIndexOf('/') + 1);
+    const signed = async (uri: string) =>
+        await getFreshUrl(`${keyPrefix}${getSegmentName(uri)}`, output.storage) || uri;
+
+    const lines = fs.readFileSync(output.file, 'utf8').split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (line.startsWith('#EXT-X-MAP:')) {
+            const match = line.match(/URI="([^"]+)"/);
+            if (match) lines[i] = line.replace(match[0], `URI="${await signed(match[1])}"`);
+        } else if (line && !line.startsWith('#')) {
+            lines[i] = await signed(line);
+        }
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,298 @@
+import fs from 'fs';
+import path from 'path';
+import getVideoDurationInSeconds from 'get-video-duration';
+import { config } from './config';
+import { database } from './database';
+import { archiveSession, ArchiveOptions, getStorageKey, getTempDir, publishRenditionManifest } from './stream';
+import { SessionRecord, StreamConfig } from './types';
+import { logger } from './utils/logger';
+import { randomID } from './utils/randomID';
+import { sendWebhookEvent } from './webhook';
+import { uploadQueue } from './uploadQueue';
+
+interface OrphanedSession {
+    sessionID: string;
+    name: string;
+    url: string;
+    outputDir: string;
+    uploadToS3: boolean;
+    storage?: string;
+    archive: ArchiveOptions;
+    renditions?: string[];  // Every rendition of the session, finished ones included
+}
+
+// Session directories are named `<ISO timestamp with dashes>-<sessionID>`
+const SESSION_DIR_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}\.\d{3}Z)-([A-Za-z0-9]+)$/;
+
+function parseSessionDir(dirName: string): { startedAt: string; sessionID: string } | null {
+    const match = dirName.match(SESSION_DIR_PATTERN);
+    if (!match) return null;
+
+    return {
+        startedAt: match[1].replace(/T(\d{2})-(\d{2})-(\d{2})/, 'T$1:$2:$3'),
+        sessionID: match[2],
+    };
+}
+
+function listChunks(outputDir: string): string[] {
+    return fs.readdirSync(outputDir)
+        .filter(file => file.startsWith('chunk-') && file.endsWith('.mp4'))
+        .sort();
+}
+
+function listDirectories(dir: string): string[] {
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir).filter(entry => fs.statSync(path.join(dir, entry)).isDirectory());
+}
+
+function listRenditions(outputDir: string): string[] {
+    return listDirectories(outputDir).filter(dir => listChunks(path.join(outputDir, dir)).length > 0);
+}
+
+// Renditions that already have their archive hold no chunks, the session record still knows them
+function getSessionRenditions(record: SessionRecord | undefined, stream: StreamConfig | undefined, outputDir: string): string[] {
+    const recorded = record ? Object.keys(record.renditions || {}) : (stream?.renditions || []).map(r => r.name);
+    return [...new Set([...recorded, ...listRenditions(outputDir)])];
+}
+
+async function copySegments(name: string, tmpDir: string, targetDir: string) {
+    // Segment lists ffmpeg kept next to the segments are not media
+    const segments = fs.readdirSync(tmpDir)
+        .filter(file => file.endsWith('.mp4'))
+        .sort();
+
+    for (const segment of segments) {
+        const segmentPath = path.join(tmpDir, segment);
+        try {
+            // The segment being written when the process died usually has no moov atom
+            await getVideoDurationInSeconds(segmentPath, '/usr/bin/ffprobe');
+        } catch (err) {
+            logger.log(`[${name}] Discarding unreadable segment ${segmentPath}: ${err}`);
+            continue;
+        }
+
+        const time = fs.statSync(segmentPath).mtime.toISOString().replace(/[:]/g, '-');
+        const chunkPath = path.join(targetDir, `chunk-${time}.mp4`);
+        fs.mkdirSync(targetDir, { recursive: true });
+        fs.copyFileSync(segmentPath, chunkPath);
+        logger.log(`[${name}] Recovered segment ${segmentPath} -> ${chunkPath}`);
+    }
+}
+
+/**
+ * Move segments ffmpeg left in temp/<name> (or temp/<name>/<rendition>) into the stream's
+ * most recent orphaned session so they are uploaded and concatenated with the rest of it.
+ */
+async function adoptTempSegments(
+    name: string,
+    outputBaseDir: string,
+    sessions: OrphanedSession[],
+    stream: StreamConfig | undefined
+) {
+    const tmpDir = getTempDir(name);
+    if (!fs.existsSync(tmpDir)) return;
+
+    // A preview image or segment list on its own is nothing to recover
+    const hasSegments = (dir: string) => fs.readdirSync(dir).some(file => file.endsWith('.mp4'));
+    const renditions = listDirectories(tmpDir).filter(dir => hasSegments(path.join(tmpDir, dir)));
+    if (!hasSegments(tmpDir) && renditions.length === 0) {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+        return;
+    }
+
+    let session = sessions.filter(s => s.name === name).sort((a, b) => a.outputDir.localeCompare(b.outputDir)).pop();
+    const created = !session;
+    if (!session) {
+        const sessionID = randomID(10);
+        const outputDir = path.join(outputBaseDir, name, new Date().toISOString().replace(/[:]/g, '-') + '-' + sessionID);
+        fs.mkdirSync(outputDir, { recursive: true });
+        session = {
+            sessionID,
+            name,
+            url: stream?.url || '',
+            outputDir,
+            uploadToS3: stream?.uploadToS3 ?? true,
+            storage: stream?.storage,
+            archive: { outputMode: stream?.outputMode, hls: stream?.hls },
+        };
+        sessions.push(session);
+    }
+
+    await copySegments(name, tmpDir, session.outputDir);
+    for (const rendition of renditions) {
+        await copySegments(`${name}/${rendition}`, path.join(tmpDir, rendition), path.join(session.outputDir, rendition));
+    }
+    session.renditions = getSessionRenditions(database.getSession(session.sessionID), stream, session.outputDir);
+    if (session.renditions.length === 0) delete session.renditions;
+
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+
+    // Every segment was unreadable, there is no session to report
+    if (created && listChunks(session.outputDir).length === 0 && listRenditions(session.outputDir).length === 0) {
+        fs.rmSync(session.outputDir, { recursive: true, force: true });
+        sessions.splice(sessions.indexOf(session), 1);
+    }
+}
+
+/**
+ * Find session directories that still hold chunks (a finished session only keeps
+ * complete.mp4) and fold leftover temp segments into them. Runs before the watcher
+ * starts so a new recording cannot reuse the same temp directory.
+ */
+export async function collectOrphanedSessions(
+    outputBaseDir: string,
+    streams: StreamConfig[]
+): Promise<OrphanedSession[]> {
+    const sessions: OrphanedSession[] = [];
+
+    for (const name of listDirectories(outputBaseDir)) {
+        const stream = streams.find(s => s.name === name);
+
+        for (const dirName of listDirectories(path.join(outputBaseDir, name))) {
+            const parsed = parseSessionDir(dirName);
+            if (!parsed) continue;
+
+            const outputDir = path.join(outputBaseDir, name, dirName);
+            if (listChunks(outputDir).length === 0 && listRenditions(outputDir).length === 0) continue;
+
+            // Finished sessions can still hold chunks whose upload is being retried
+            const record = database.getSession(parsed.sessionID);
+            if (record && (record.status === 'completed' || record.status === 'recovered')) continue;
+            if (record?.status === 'failed' && (record.recoveryAttempts || 0) >= config.RECOVERY.MAX_ATTEMPTS) {
+                logger.log(`[${name}] Not recovering session ${parsed.sessionID} after ${record.recoveryAttempts} failed attempts, its chunks stay in ${outputDir}`);
+                continue;
+            }
+
+            const renditions = getSessionRenditions(record, stream, outputDir);
+            sessions.push({
+                sessionID: parsed.sessionID,
+                name,
+                url: record?.url || stream?.url || '',
+                outputDir,
+                uploadToS3: stream?.uploadToS3 ?? true,
+                storage: stream?.storage,
+                archive: { outputMode: stream?.outputMode, hls: stream?.hls },
+                ...(renditions.length > 0 ? { renditions } : {}),
+            });
+        }
+    }
+
+    const tempRoot = path.dirname(getTempDir('_'));
+    for (const name of listDirectories(tempRoot)) {
+        await adoptTempSegments(name, outputBaseDir, sessions, streams.find(s => s.name === name));
+    }
+
+    return sessions;
+}
+
+// Upload what is missing of one output directory and build its archive
+async function recoverChunks(session: OrphanedSession, outputDir: string, rendition?: string): Promise<number> {
+    const { sessionID, name } = session;
+    const chunks = listChunks(outputDir);
+    const chunkRecords = database.getChunks(sessionID);
+
+    if (session.uploadToS3) {
+        for (const chunk of chunks) {
+            const localPath = path.join(outputDir, chunk);
+            if (chunkRecords.some(record => record.file === localPath && record.uploaded)) continue;
+            // Uploads that were already queued before the crash retry on their own
+            if (uploadQueue.hasJob(localPath)) continue;
+
+            const size = fs.statSync(localPath).size;
+            if (!chunkRecords.some(record => record.file === localPath)) {
+                database.addChunk({ sessionID, name, file: localPath, size });
+            }
+
+            const urlUpload = await uploadQueue.enqueue({
+                kind: 'chunk',
+                name,
+                sessionID,
+                key: getStorageKey(outputDir, chunk),
+                file: localPath,
+                storage: session.storage,
+                meta: { size, source: session.url, rendition, recovered: true },
+            });
+            if (urlUpload) {
+                logger.log(`[${name}] Recovered S3 Upload ${urlUpload}`);
+            }
+        }
+    }
+
+    if (chunks.length > 0) {
+        await archiveSession(sessionID, name, chunks, outputDir, session.uploadToS3, session.storage, undefined, { ...session.archive, rendition });
+
+        for (const chunk of chunks) {
+            uploadQueue.removeFileWhenUploaded(path.join(outputDir, chunk));
+        }
+    }
+    return chunks.length;
+}
+
+async function recoverSession(session: OrphanedSession) {
+    const { sessionID, name, outputDir } = session;
+    logger.log(`[${name}] Recovering interrupted session ${sessionID} in ${outputDir}`);
+
+    if (!database.getSession(sessionID)) {
+        database.startSession({
+            sessionID,
+            name,
+            url: session.url,
+            outputDir,
+            startedAt: parseSessionDir(path.basename(outputDir))?.startedAt,
+        });
+    }
+    database.addRecoveryAttempt(sessionID);
+
+    let chunkCount = await recoverChunks(session, outputDir);
+
+    if (session.renditions) {
+        // Only renditions cut off before their archive still have chunks to recover
+        for (const rendition of listRenditions(outputDir)) {
+            chunkCount += await recoverChunks(session, path.join(outputDir, rendition), rendition);
+        }
+        await publishRenditionManifest(sessionID, name, outputDir, session.renditions, session.uploadToS3, session.storage, session.archive);
+    }
+
+    database.endSession(sessionID, 'recovered');
+    database.pruneSessions(config.DATABASE.SESSION_HISTORY_SIZE);
+
+    await sendWebhookEvent({
+        type: 'streamEnd',
+        payload: {
+            name,
+            url: session.url,
+            source: session.url,
+            sessionID,
+            recovered: true,
+        },
+        server: config.STREAM_SERVER_NAME,
+        time: new Date().toISOString(),
+    });
+    await sendWebhookEvent({
+        type: 'sessionRecovered',
+        payload: {
+            name,
+            url: session.url,
+            sessionID,
+            chunkCount,
+            ...(session.renditions ? { renditions: session.renditions } : {}),
+        },
+        server: config.STREAM_SERVER_NAME,
+        time: new Date().toISOString(),
+    });
+}
+
+export async function recoverSessions(sessions: OrphanedSession[]) {
+    // One at a time, the concat step is as heavy as a live recording
+    for (const session of sessions) {
+        try {
+            await recoverSession(session);
+        } catch (err) {
+            logger.log(`[${session.name}] Error recovering session ${session.sessionID}: ${err}`);
+            // Its chunks are still there, the next start tries again up to RECOVERY.MAX_ATTEMPTS
+            if (database.getSession(session.sessionID)) {
+                database.endSession(session.sessionID, 'failed');
+            }
+        }
+    }
+}
@@ -0,0 +1,199 @@
+import { fetch, ProxyAgent } from 'undici';
+import { StreamRequestOptions, TokenRefreshOptions } from './types';
+import { logger } from './utils/logger';
+
+export interface ResolvedRequest {
+    url: string;
+    headers: { [name: string]: string };
+    proxy?: string;
+}
+
+interface RefreshedToken {
+    token?: string;
+    query?: { [name: string]: string };
+    headers?: { [name: string]: string };
+    expiresAt: number;
+}
+
+export const DEFAULT_USER_AGENT = 'Mozilla/5.0';
+const DEFAULT_REFRESH_INTERVAL_S = 5 * 60;
+
+// Keyed by the stream's tokenRefresh settings, editing them starts over with a new token
+const tokens = new WeakMap<TokenRefreshOptions, RefreshedToken>();
+const pendingRefreshes = new WeakMap<TokenRefreshOptions, Promise<RefreshedToken>>();
+const proxyAgents = new Map<string, ProxyAgent>();
+
+function getProxyAgent(proxy: string): ProxyAgent {
+    let agent = proxyAgents.get(proxy);
+    if (!agent) {
+        agent = new ProxyAgent(proxy);
+        proxyAgents.set(proxy, agent);
+    }
+    return agent;
+}
+
+/**
+ * Ask the stream's callback URL for a fresh token. The callback gets `{ url }` and
+ * answers with any of `{ token, query, headers, expiresIn }`.
+ */
+async function fetchToken(url: string, options: TokenRefreshOptions, proxy?: string): Promise<RefreshedToken> {
+    const response = await fetch(options.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...options.headers },
+        body: JSON.stringify({ url }),
+        dispatcher: proxy ? getProxyAgent(proxy) : undefined,
+    });
+    if (!response.ok) {
+        throw new Error(`Token refresh failed with status ${response.status}`);
+    }
+
+    const body = await response.json() as Partial<RefreshedToken> & { expiresIn?: number };
+    const lifetime = Number(body.expiresIn) || options.intervalSeconds || DEFAULT_REFRESH_INTERVAL_S;
+    return {
+        token: body.token,
+        query: body.query,
+        headers: body.headers,
+        // Refresh a little early so a request never goes out with a token about to expire
+        expiresAt: Date.now() + lifetime * 1000 * 0.9,
+    };
+}
+
+async function getToken(url: string, options: TokenRefreshOptions, proxy?: string): Promise<RefreshedToken> {
+    const cached = tokens.get(options);
+    if (cached && cached.expiresAt > Date.now()) return cached;
+
+    let pending = pendingRefreshes.get(options);
+    if (!pending) {
+        pending = fetchToken(url, options, proxy)
+            .then(token => {
+                tokens.set(options, token);
+                return token;
+            })
+            .finally(() => pendingRefreshes.delete(options));
+        pendingRefreshes.set(options, pending);
+    }
+
+    try {
+        return await pending;
+    } catch (err) {
+        // An expired token is still worth a try, the source may accept it for a while
+        if (cached) {
+            logger.log(`Token refresh via ${options.url} failed, reusing the previous token: ${err}`);
+            return cached;
+        }
+        throw err;
+    }
+}
+
+/**
+ * Apply a stream's request options to a URL: auth, cookies, custom headers and a
+ * refreshed query token.
+ */
+export async function resolveRequest(url: string, options: StreamRequestOptions = {}): Promise<ResolvedRequest> {
+    const headers: { [name: string]: string } = {
+        'User-Agent': options.userAgent || DEFAULT_USER_AGENT,
+        ...options.headers,
+    };
+    let resolvedUrl = url;
+
+    if (options.auth?.type === 'basic') {
+        const credentials = Buffer.from(`${options.auth.username}:${options.auth.password}`).toString('base64');
+        headers['Authorization'] = `Basic ${credentials}`;
+    } else if (options.auth?.type === 'bearer') {
+        headers['Authorization'] = `Bearer ${options.auth.token}`;
+    }
+
+    if (options.cookies && Object.keys(options.cookies).length > 0) {
+        headers['Cookie'] = Object.entries(options.cookies)
+            .map(([name, value]) => `${name}=${value}`)
+            .join('; ');
+    }
+
+    if (options.tokenRefresh) {
+        const token = await getToken(url, options.tokenRefresh, options.proxy);
+        const target = new URL(url);
+        if (token.token) {
+            target.searchParams.set(options.tokenRefresh.queryParam || 'token', token.token);
+        }
+        Object.entries(token.query || {}).forEach(([name, value]) => target.searchParams.set(name, value));
+        Object.assign(headers, token.headers);
+        resolvedUrl = target.href;
+    }
+
+    return { url: resolvedUrl, headers, proxy: options.proxy };
+}
+
+export async function fetchStreamUrl(
+    url: string,
+    options: StreamRequestOptions = {},
+    accept: string = '*/*',
+    headers: { [name: string]: string } = {},
+    signal?: AbortSignal
+) {
+    const request = await resolveRequest(url, options);
+    return fetch(request.url, {
+        headers: { 'Accept': accept, ...request.headers, ...headers },
+        dispatcher: request.proxy ? getProxyAgent(request.proxy) : undefined,
+        signal,
+    });
+}
+
+/**
+ * Anything beyond a user agent can carry credentials, ffmpeg reads those sources through
+ * the source proxy rather than getting them on its command line.
+ */
+export function needsSourceProxy(options: StreamRequestOptions = {}): boolean {
+    return !!(options.headers || options.cookies || options.auth || options.tokenRefresh || options.proxy);
+}
+
+// Only for sources without credentials, see needsSourceProxy
+export function getFfmpegInputOptions(request: ResolvedRequest): string[] {
+    return ['-user_agent', request.headers['User-Agent']];
+}
+
+export function validateRequestOptions(options: unknown): string | null {
+    if (options === undefined) return null;
+    if (!options || typeof options !== 'object' || Array.isArray(options)) return 'request must be an object';
+
+    const request = options as StreamRequestOptions;
+    const isStringMap = (value: unknown) =>
+        !!value && typeof value === 'object' && !Array.isArray(value) &&
+        Object.values(value as object).every(entry => typeof entry === 'string');
+
+    if (request.headers !== undefined && !isStringMap(request.headers)) return 'request.headers must map names to strings';
+    if (request.cookies !== undefined && !isStringMap(request.cookies)) return 'request.cookies must map names to strings';
+    if (request.userAgent !== undefined && typeof request.userAgent !== 'string') return 'request.userAgent must be a string';
+    if (request.proxy !== undefined && (typeof request.proxy !== 'string' || !/^https?:\/\//.test(request.proxy))) {
+        return 'request.proxy must be an http(s) URL';
+    }
+
+    if (request.auth !== undefined) {
+        const auth = request.auth;
+        if (auth?.type === 'basic') {
+            if (typeof auth.username !== 'string' || typeof auth.password !== 'string') {
+                return 'request.auth needs a username and password for basic auth';
+            }
+        } else if (auth?.type === 'bearer') {
+            if (typeof auth.token !== 'string' || !auth.token) return 'request.auth needs a token for bearer auth';
+        } else {
+            return 'request.auth.type must be basic or bearer';
+        }
+    }
+
+    if (request.tokenRefresh !== undefined) {
+        const refresh = request.tokenRefresh;
+        if (!refresh || typeof refresh.url !== 'string' || !/^https?:\/\//.test(refresh.url)) {
+            return 'request.tokenRefresh.url must be an http(s) URL';
+        }
+        if (refresh.queryParam !== undefined && (typeof refresh.queryParam !== 'string' || !refresh.queryParam)) {
+            return 'request.tokenRefresh.queryParam must be a parameter name';
+        }
+        if (refresh.intervalSeconds !== undefined && (typeof refresh.intervalSeconds !== 'number' || refresh.intervalSeconds <= 0)) {
+            return 'request.tokenRefresh.intervalSeconds must be a positive number';
+        }
+        if (refresh.headers !== undefined && !isStringMap(refresh.headers)) {
+            return 'request.tokenRefresh.headers must map names to strings';
+        }
+    }
+    return null;
+}
@@ -0,0 +1,322 @@
+import { ScheduleStatus, StreamSchedule } from './types';
+
+interface LocalDate {
+    year: number;
+    month: number;
+    day: number;
+    weekday: number;
+}
+
+interface WallClock extends LocalDate {
+    minute: number;
+    hour: number;
+}
+
+// A window opens on every minute of a day `startsOn` returns and stays open for `durationMinutes`
+interface ScheduleRule {
+    startsOn: (date: LocalDate) => number[];  // Minutes of the day, ascending
+    durationMinutes: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            hourCycle: 'h23',
+            weekday: 'short',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+        });
+        formatters.set(timezone, formatter);
+    }
+    return formatter;
+}
+
+function getWallClock(time: number, timezone: string): WallClock {
+    const parts: { [type: string]: string } = {};
+    getFormatter(timezone).formatToParts(new Date(time)).forEach(part => {
+        parts[part.type] = part.value;
+    });
+
+    return {
+        minute: Number(parts.minute),
+        hour: Number(parts.hour),
+        day: Number(parts.day),
+        month: Number(parts.month),
+        year: Number(parts.year),
+        weekday: WEEKDAYS.indexOf(parts.weekday),
+    };
+}
+
+function addDays(date: LocalDate, days: number): LocalDate {
+    const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+    return {
+        year: shifted.getUTCFullYear(),
+        month: shifted.getUTCMonth() + 1,
+        day: shifted.getUTCDate(),
+        weekday: shifted.getUTCDay(),
+    };
+}
+
+// How far the wall clock is ahead of UTC at `time`
+function getOffset(time: number, timezone: string): number {
+    const clock = getWallClock(time, timezone);
+    const minute = Math.floor(time / MINUTE_MS) * MINUTE_MS;
+    return Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute) - minute;
+}
+
+/**
+ * Instants at which the wall clock shows `minuteOfDay` on `date`: none when it falls into
+ * a DST gap, two when the clocks go back over it.
+ */
+function toInstants(date: LocalDate, minuteOfDay: number, timezone: string): number[] {
+    const wallTime = Date.UTC(date.year, date.month - 1, date.day, Math.floor(minuteOfDay / 60), minuteOfDay % 60);
+    // Offsets half a day either side cover both sides of any transition that day
+    const offsets = new Set([getOffset(wallTime - DAY_MS / 2, timezone), getOffset(wallTime + DAY_MS / 2, timezone)]);
+
+    return [...offsets]
+        .map(offset => wallTime - offset)
+        .filter(time => {
+            const clock = getWallClock(time, timezone);
+            return clock.day === date.day && clock.hour * 60 + clock.minute === minuteOfDay;
+        })
+        .sort((a, b) => a - b);
+}
+
+/**
+ * Window starts of a rule from `time` on, going forward or backward one local day at a
+ * time for up to `days` days. Only the starts that are actually used get converted.
+ */
+function* getStarts(rule: ScheduleRule, timezone: string, time: number, direction: 1 | -1, days: number): Generator<number> {
+    const today = getWallClock(time, timezone);
+
+    for (let offset = 0; offset <= days; offset++) {
+        const date = addDays(today, offset * direction);
+        const minutes = rule.startsOn(date);
+        if (direction < 0) minutes.reverse();
+
+        for (const minute of minutes) {
+            const instants = toInstants(date, minute, timezone);
+            if (direction < 0) instants.reverse();
+            for (const instant of instants) {
+                if (direction > 0 ? instant >= time : instant <= time) yield instant;
+            }
+        }
+    }
+}
+
+function parseTime(value: string): number | null {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+    if (!match) return null;
+
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours > 23 || minutes > 59) return null;
+    return hours * 60 + minutes;
+}
+
+function parseCronField(field: string, min: number, max: number): Set<number> | null {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+        if (!match) return null;
+
+        const start = match[1] === '*' ? min : Number(match[2]);
+        const end = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] ? max : start;
+        const step = match[4] ? Number(match[4]) : 1;
+        if (start < min || end > max || start > end || step < 1) return null;
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+}
+
+function parseCron(expression: string): ((date: LocalDate) => number[]) | null {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) return null;
+
+    const minutes = parseCronField(fields[0], 0, 59);
+    const hours = parseCronField(fields[1], 0, 23);
+    const days = parseCronField(fields[2], 1, 31);
+    const months = parseCronField(fields[3], 1, 12);
+    const weekdays = parseCronField(fields[4], 0, 7);
+    if (!minutes || !hours || !days || !months || !weekdays) return null;
+
+    // 7 is an alias for Sunday
+    if (weekdays.has(7)) weekdays.add(0);
+
+    // Like cron, day-of-month and day-of-week are OR'ed when both are restricted
+    const anyDay = fields[2] === '*';
+    const anyWeekday = fields[4] === '*';
+
+    const minutesOfDay: number[] = [];
+    [...hours].sort((a, b) => a - b).forEach(hour => {
+        [...minutes].sort((a, b) => a - b).forEach(minute => minutesOfDay.push(hour * 60 + minute));
+    });
+
+    return (date) => {
+        if (!months.has(date.month)) return [];
+        const dayMatches = anyDay || anyWeekday
+            ? days.has(date.day) && weekdays.has(date.weekday)
+            : days.has(date.day) || weekdays.has(date.weekday);
+        return dayMatches ? [...minutesOfDay] : [];
+    };
+}
+
+function getTimezone(schedule: StreamSchedule): string {
+    return schedule.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+function buildRules(schedule: StreamSchedule): ScheduleRule[] {
+    const rules: ScheduleRule[] = [];
+
+    (schedule.windows || []).forEach(window => {
+        const start = parseTime(window.start);
+        const end = parseTime(window.end);
+        if (start === null || end === null) return;
+
+        rules.push({
+            startsOn: (date) => window.days.includes(date.weekday) ? [start] : [],
+            durationMinutes: (end - start + 24 * 60) % (24 * 60) || 24 * 60,
+        });
+    });
+
+    (schedule.cron || []).forEach(entry => {
+        const startsOn = parseCron(entry.cron);
+        if (!startsOn) return;
+
+        rules.push({ startsOn, durationMinutes: entry.durationMinutes });
+    });
+
+    return rules;
+}
+
+export function validateSchedule(schedule: any): string | null {
+    if (!schedule || typeof schedule !== 'object') return 'schedule must be an object';
+
+    if (schedule.timezone !== undefined) {
+        try {
+            new Intl.DateTimeFormat('en-US', { timeZone: schedule.timezone });
+        } catch {
+            return `Unknown timezone ${schedule.timezone}`;
+        }
+    }
+
+    if (schedule.windows !== undefined) {
+        if (!Array.isArray(schedule.windows)) return 'schedule.windows must be an array';
+        for (const window of schedule.windows) {
+            if (!window || typeof window !== 'object') return 'each schedule window must be an object';
+            if (!Array.isArray(window.days) || window.days.some((day: any) => !Number.isInteger(day) || day < 0 || day > 6)) {
+                return 'schedule window days must be numbers from 0 (Sunday) to 6 (Saturday)';
+            }
+            if (typeof window.start !== 'string' || parseTime(window.start) === null) {
+                return `Invalid window start ${window.start}, expected HH:MM`;
+            }
+            if (typeof window.end !== 'string' || parseTime(window.end) === null) {
+                return `Invalid window end ${window.end}, expected HH:MM`;
+            }
+        }
+    }
+
+    if (schedule.cron !== undefined) {
+        if (!Array.isArray(schedule.cron)) return 'schedule.cron must be an array';
+        for (const entry of schedule.cron) {
+            if (!entry || typeof entry !== 'object') return 'each schedule cron entry must be an object';
+            if (typeof entry.cron !== 'string' || !parseCron(entry.cron)) {
+                return `Invalid cron expression ${entry.cron}`;
+            }
+            if (typeof entry.durationMinutes !== 'number' || entry.durationMinutes <= 0 || entry.durationMinutes > 7 * 24 * 60) {
+                return 'cron durationMinutes must be a positive number of at most one week';
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Find the window that contains `now`, if any. Only the latest start of each rule can
+ * still be open, the ones before it opened earlier for just as long.
+ */
+function findOpenWindow(rules: ScheduleRule[], timezone: string, now: number): { start: number; end: number } | null {
+    const currentMinute = Math.floor(now / MINUTE_MS) * MINUTE_MS;
+    let open: { start: number; end: number } | null = null;
+
+    for (const rule of rules) {
+        const days = Math.ceil(rule.durationMinutes / (24 * 60)) + 1;
+        const { value: start } = getStarts(rule, timezone, currentMinute, -1, days).next();
+        if (start === undefined || currentMinute - start >= rule.durationMinutes * MINUTE_MS) continue;
+
+        const end = start + rule.durationMinutes * MINUTE_MS;
+        if (!open || end > open.end) {
+            open = { start, end };
+        }
+    }
+
+    return open;
+}
+
+export function isScheduleOpen(schedule: StreamSchedule | undefined, now: number = Date.now()): boolean {
+    if (!schedule) return true;
+
+    const rules = buildRules(schedule);
+    if (rules.length === 0) return true;
+
+    return findOpenWindow(rules, getTimezone(schedule), now) !== null;
+}
+
+export function getScheduleStatus(
+    schedule: StreamSchedule | undefined,
+    now: number = Date.now(),
+    count: number = 3
+): ScheduleStatus | null {
+    if (!schedule) return null;
+
+    const timezone = getTimezone(schedule);
+    const rules = buildRules(schedule);
+    const upcoming: ScheduleStatus['upcoming'] = [];
+
+    const open = findOpenWindow(rules, timezone, now);
+    if (open) {
+        upcoming.push({ start: new Date(open.start).toISOString(), end: new Date(open.end).toISOString() });
+    }
+
+    // Look a week ahead, which covers every weekly window. Rules starting on the same
+    // minute make one window that lasts as long as the longest of them
+    const firstMinute = Math.floor(now / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+    const durations = new Map<number, number>();
+    for (const rule of rules) {
+        let found = 0;
+        for (const start of getStarts(rule, timezone, firstMinute, 1, 8)) {
+            if (start >= firstMinute + 7 * DAY_MS || found++ >= count) break;
+            durations.set(start, Math.max(durations.get(start) ?? 0, rule.durationMinutes));
+        }
+    }
+
+    [...durations.keys()]
+        .sort((a, b) => a - b)
+        .slice(0, Math.max(0, count - upcoming.length))
+        .forEach(start => upcoming.push({
+            start: new Date(start).toISOString(),
+            end: new Date(start + durations.get(start)! * MINUTE_MS).toISOString(),
+        }));
+
+    return {
+        timezone,
+        open: rules.length === 0 || open !== null,
+        upcoming,
+    };
+}
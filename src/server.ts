@@ -1,22 +1,113 @@
 import express from 'express';
-import stateTracker from './stateTracker';
 import { logger } from './utils/logger';
-import { getSystemUsage } from './usage';
+import {
+    audit,
+    authMiddleware,
+    endSession,
+    finishOidcLogin,
+    getIdentity,
+    getSafeRedirect,
+    hasRole,
+    isAuthEnabled,
+    isOidcEnabled,
+    isPasswordLoginEnabled,
+    loginThrottle,
+    loginWithPassword,
+    requireRole,
+    startOidcLogin,
+    startSession,
+} from './auth';
 import path from 'path';
-import globalTracker from './globalTracker';
+import { config } from './config';
+import { database } from './database';
+import { validateSchedule } from './schedule';
+import { getLocalStorageMounts, hasStorage } from './storage';
+import { hasEncodingProfile } from './encoding';
+import { getStatusSnapshot, liveEvents } from './liveEvents';
+import { getRecording, getRecordingPlaylist, listRecordings, parseRecordingQuery } from './recordings';
+import { validatePreferredQuality } from './m3u8';
+import { validateRequestOptions } from './request';
+import { validateArchiveOptions, validateReconnectOptions, validateRenditions } from './stream';
+import { uploadQueue } from './uploadQueue';
+import { webhookQueue } from './webhook';
+import { StreamConfig, StreamWatcher } from './watcher';
 
 const app = express();
 const port = process.env.PORT || 3000;
 
+app.use(express.json());
+// Ahead of the static files, the dashboard itself is behind the login too
+app.use(authMiddleware);
 app.use(express.static(path.join(__dirname, 'public')));
 
-function getPingHistoryString(streamName: string): string {
-    const states = stateTracker.getValue();
-    if (!states || !states[streamName]) return '';
+// The name becomes a folder under the temp and output folders, nothing that could leave them
+const STREAM_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
 
-    return states[streamName].pingHistory
-        .map(active => active ? 'O' : '_')
-        .join('');
+function validateStreamInput(body: any, partial: boolean): string | null {
+    if (!body || typeof body !== 'object') return 'Request body must be a JSON object';
+    if (!partial && (typeof body.name !== 'string' || !body.name.trim())) return 'name is required';
+    if (!partial && !STREAM_NAME_PATTERN.test(body.name.trim())) return 'name may only contain letters, digits, - and _';
+    if (partial && body.name !== undefined) return 'name cannot be changed';
+    if ((!partial || body.url !== undefined) && (typeof body.url !== 'string' || !/^https?:\/\//.test(body.url))) {
+        return 'url must be an http(s) URL';
+    }
+    if (body.chunkDuration !== undefined && (typeof body.chunkDuration !== 'number' || body.chunkDuration <= 0)) {
+        return 'chunkDuration must be a positive number';
+    }
+    if (body.uploadToS3 !== undefined && typeof body.uploadToS3 !== 'boolean') return 'uploadToS3 must be a boolean';
+    if (body.paused !== undefined && typeof body.paused !== 'boolean') return 'paused must be a boolean';
+    if (body.codecMode !== undefined && body.codecMode !== 'copy' && body.codecMode !== 'transcode') {
+        return 'codecMode must be copy or transcode';
+    }
+    const qualityError = validatePreferredQuality(body.preferredQuality);
+    if (qualityError) return qualityError;
+    if (body.request !== null) {
+        const requestError = validateRequestOptions(body.request);
+        if (requestError) return requestError;
+    }
+    if (body.encodingProfile !== undefined &&
+        (typeof body.encodingProfile !== 'string' || !hasEncodingProfile(body.encodingProfile))) {
+        return 'encodingProfile must be one of the configured profiles';
+    }
+    if (body.storage !== undefined && (typeof body.storage !== 'string' || !hasStorage(body.storage))) {
+        return `storage must be one of the configured backends`;
+    }
+    if (body.schedule !== undefined && body.schedule !== null) {
+        const scheduleError = validateSchedule(body.schedule);
+        if (scheduleError) return scheduleError;
+    }
+    if (body.renditions !== undefined && body.renditions !== null) {
+        const renditionsError = validateRenditions(body.renditions);
+        if (renditionsError) return renditionsError;
+    }
+    if (body.reconnect !== null) {
+        const reconnectError = validateReconnectOptions(body.reconnect);
+        if (reconnectError) return reconnectError;
+    }
+    return validateArchiveOptions({ outputMode: body.outputMode, hls: body.hls });
+}
+
+function pickStreamFields(body: any): Partial<StreamConfig> {
+    const fields: Partial<StreamConfig> = {};
+    if (body.url !== undefined) fields.url = body.url;
+    if (body.chunkDuration !== undefined) fields.chunkDuration = body.chunkDuration;
+    if (body.uploadToS3 !== undefined) fields.uploadToS3 = body.uploadToS3;
+    if (body.paused !== undefined) fields.paused = body.paused;
+    if (body.storage !== undefined) fields.storage = body.storage;
+    if (body.outputMode !== undefined) fields.outputMode = body.outputMode;
+    if (body.codecMode !== undefined) fields.codecMode = body.codecMode;
+    if (body.encodingProfile !== undefined) fields.encodingProfile = body.encodingProfile;
+    if (body.preferredQuality !== undefined) fields.preferredQuality = body.preferredQuality;
+    // null drops the request options, the source is then fetched without auth
+    if (body.request !== undefined) fields.request = body.request || undefined;
+    if (body.hls !== undefined) fields.hls = body.hls;
+    // null goes back to recording a single output
+    if (body.renditions !== undefined) fields.renditions = body.renditions || undefined;
+    // null goes back to the server-wide reconnect settings
+    if (body.reconnect !== undefined) fields.reconnect = body.reconnect || undefined;
+    // null clears the schedule so the stream is watched around the clock again
+    if (body.schedule !== undefined) fields.schedule = body.schedule || undefined;
+    return fields;
 }
 
 app.get('/', (_req, res) => {
@@ -24,25 +115,326 @@ app.get('/', (_req, res) => {
 });
 
 app.get('/api/status', async (_req, res) => {
-    const states = JSON.parse(JSON.stringify(stateTracker.getValue()));
-    const systemUsage = await getSystemUsage();
-    const globalState = globalTracker.getValue();
+    res.json(await getStatusSnapshot(hasRole(getIdentity(res), 'admin')));
+});
 
-    if (states) {
-        for (const streamName in states) {
-            states[streamName].pingHistory = getPingHistoryString(streamName);
+app.get('/api/events', (req, res) => {
+    liveEvents.connect(req, res).catch(err => {
+        logger.log(`Failed to start event stream: ${err}`);
+        res.end();
+    });
+});
+
+function registerStreamRoutes(streamWatcher: StreamWatcher) {
+    // Request options hold source credentials, only admins get to see them
+    app.get('/api/streams', (_req, res) => {
+        const streams = streamWatcher.getStreams();
+        if (hasRole(getIdentity(res), 'admin')) {
+            res.json(streams);
+            return;
         }
-    }
+        res.json(streams.map(({ request, ...stream }) => stream));
+    });
 
-    res.json({
-        timestamp: new Date().toISOString(),
-        states: states || {},
-        system: systemUsage,
-        global: globalState,
+    app.post('/api/streams', requireRole('admin'), (req, res) => {
+        const error = validateStreamInput(req.body, false);
+        if (error) {
+            res.status(400).json({ error });
+            return;
+        }
+        const name = req.body.name.trim();
+        if (streamWatcher.getStream(name)) {
+            res.status(409).json({ error: `Stream ${name} already exists` });
+            return;
+        }
+
+        const stream = streamWatcher.addStream({
+            name,
+            url: req.body.url,
+            uploadToS3: true,
+            chunkDuration: config.STREAM.CHUNK_DURATION_S,
+            ...pickStreamFields(req.body),
+        });
+        audit(req, getIdentity(res), 'stream.create', stream.name, { fields: Object.keys(pickStreamFields(req.body)) });
+        res.status(201).json(stream);
     });
-});
 
-export function startServer() {
+    app.patch('/api/streams/:name', requireRole('admin'), (req, res) => {
+        if (!streamWatcher.getStream(req.params.name)) {
+            res.status(404).json({ error: `Stream ${req.params.name} not found` });
+            return;
+        }
+        const error = validateStreamInput(req.body, true);
+        if (error) {
+            res.status(400).json({ error });
+            return;
+        }
+
+        const fields = pickStreamFields(req.body);
+        const stream = streamWatcher.updateStream(req.params.name, fields);
+        // Field names only, the values may carry credentials
+        audit(req, getIdentity(res), 'stream.update', req.params.name, { fields: Object.keys(fields) });
+        res.json(stream);
+    });
+
+    app.delete('/api/streams/:name', requireRole('admin'), (req, res) => {
+        if (!streamWatcher.getStream(req.params.name)) {
+            res.status(404).json({ error: `Stream ${req.params.name} not found` });
+            return;
+        }
+        if (streamWatcher.isRecording(req.params.name)) {
+            res.status(409).json({ error: `Stream ${req.params.name} is currently recording` });
+            return;
+        }
+
+        streamWatcher.removeStream(req.params.name);
+        audit(req, getIdentity(res), 'stream.delete', req.params.name);
+        res.status(204).end();
+    });
+
+    app.get('/api/streams/:name/preview.jpg', (req, res) => {
+        const preview = streamWatcher.getPreview(req.params.name);
+        if (!preview) {
+            res.status(404).json({ error: `No preview of ${req.params.name}, it is not recording or has no picture yet` });
+            return;
+        }
+        // A new picture comes every PREVIEW.INTERVAL_S, cards re-rendering in between reuse this one
+        res.set('Cache-Control', `private, max-age=${config.PREVIEW.INTERVAL_S}`);
+        res.sendFile(preview);
+    });
+
+    app.post('/api/streams/:name/pause', requireRole('operator'), (req, res) => {
+        if (!streamWatcher.getStream(req.params.name)) {
+            res.status(404).json({ error: `Stream ${req.params.name} not found` });
+            return;
+        }
+        const stream = streamWatcher.pauseStream(req.params.name);
+        audit(req, getIdentity(res), 'stream.pause', req.params.name);
+        res.json(stream);
+    });
+
+    app.post('/api/streams/:name/resume', requireRole('operator'), (req, res) => {
+        if (!streamWatcher.getStream(req.params.name)) {
+            res.status(404).json({ error: `Stream ${req.params.name} not found` });
+            return;
+        }
+        const stream = streamWatcher.resumeStream(req.params.name);
+        audit(req, getIdentity(res), 'stream.resume', req.params.name);
+        res.json(stream);
+    });
+}
+
+function registerUploadRoutes() {
+    app.get('/api/uploads', (_req, res) => {
+        res.json(uploadQueue.getJobs());
+    });
+
+    app.post('/api/uploads/:id/retry', requireRole('operator'), (req, res) => {
+        if (!uploadQueue.retry(req.params.id)) {
+            res.status(404).json({ error: `No failed upload ${req.params.id}` });
+            return;
+        }
+        audit(req, getIdentity(res), 'upload.retry', req.params.id);
+        res.status(202).json({ id: req.params.id, retrying: true });
+    });
+}
+
+function registerWebhookRoutes() {
+    app.get('/api/webhooks', requireRole('admin'), (_req, res) => {
+        res.json(webhookQueue.getEndpoints());
+    });
+
+    // Newest first, filtered by ?endpoint=, ?status= and ?type=
+    app.get('/api/webhooks/deliveries', requireRole('admin'), (req, res) => {
+        const { endpoint, status, type } = req.query;
+        const limit = Math.min(Number(req.query.limit) || 100, config.WEBHOOK.LOG_SIZE);
+
+        const deliveries = webhookQueue.getDeliveries()
+            .filter(d => endpoint === undefined || d.endpoint === endpoint)
+            .filter(d => status === undefined || d.status === status)
+            .filter(d => type === undefined || d.event.type === type)
+            .reverse()
+            .slice(0, limit);
+        res.json(deliveries);
+    });
+
+    app.post('/api/webhooks/deliveries/:id/retry', requireRole('operator'), (req, res) => {
+        if (!webhookQueue.retry(req.params.id)) {
+            res.status(404).json({ error: `No failed webhook delivery ${req.params.id}` });
+            return;
+        }
+        audit(req, getIdentity(res), 'webhook.retry', req.params.id);
+        res.status(202).json({ id: req.params.id, retrying: true });
+    });
+}
+
+function registerRecordingRoutes() {
+    app.get('/recordings', (_req, res) => {
+        res.sendFile(path.join(__dirname, 'public', 'recordings.html'));
+    });
+
+    // Filtered by ?stream=, ?search=, ?status=, ?from=, ?to=, ?minDuration= and ?maxDuration=, paged with ?page= and ?pageSize=
+    app.get('/api/recordings', (req, res) => {
+        const query = parseRecordingQuery(req.query);
+        if (typeof query === 'string') {
+            res.status(400).json({ error: query });
+            return;
+        }
+        res.json(listRecordings(query));
+    });
+
+    app.get('/api/recordings/:sessionID', async (req, res) => {
+        const recording = await getRecording(req.params.sessionID);
+        if (!recording) {
+            res.status(404).json({ error: `Recording ${req.params.sessionID} not found` });
+            return;
+        }
+        res.json(recording);
+    });
+
+    app.get('/api/recordings/:sessionID/playlist.m3u8', async (req, res) => {
+        const rendition = typeof req.query.rendition === 'string' ? req.query.rendition : undefined;
+        const playlist = await getRecordingPlaylist(req.params.sessionID, rendition);
+        if (playlist === null) {
+            res.status(404).json({ error: `No HLS archive of ${req.params.sessionID} on this server` });
+            return;
+        }
+        res.type('application/vnd.apple.mpegurl').send(playlist);
+    });
+}
+
+function registerAuthRoutes() {
+    app.get('/login', (_req, res) => {
+        res.sendFile(path.join(__dirname, 'public', 'login.html'));
+    });
+
+    app.get('/auth/methods', (_req, res) => {
+        res.json({ enabled: isAuthEnabled(), password: isPasswordLoginEnabled(), oidc: isOidcEnabled() });
+    });
+
+    app.post('/auth/login', async (req, res) => {
+        const { username, password } = req.body || {};
+        if (typeof username !== 'string' || typeof password !== 'string') {
+            res.status(400).json({ error: 'username and password are required' });
+            return;
+        }
+
+        const ip = req.ip || '';
+        const retryAfter = loginThrottle.getRetryAfter(ip, username);
+        if (retryAfter > 0) {
+            res.set('Retry-After', String(retryAfter));
+            res.status(429).json({ error: 'Too many failed logins, try again later' });
+            return;
+        }
+
+        const identity = await loginWithPassword(username, password);
+        if (!identity) {
+            loginThrottle.recordFailure(ip, username);
+            res.status(401).json({ error: 'Wrong username or password' });
+            return;
+        }
+        loginThrottle.recordSuccess(ip, username);
+        startSession(req, res, identity);
+        audit(req, identity, 'auth.login', identity.name);
+        res.json(identity);
+    });
+
+    app.post('/auth/logout', (req, res) => {
+        audit(req, getIdentity(res), 'auth.logout', getIdentity(res).name);
+        endSession(res);
+        res.status(204).end();
+    });
+
+    app.get('/auth/me', (_req, res) => {
+        res.json(getIdentity(res));
+    });
+
+    app.get('/auth/oidc/login', async (req, res) => {
+        if (!isOidcEnabled()) {
+            res.status(404).json({ error: 'OIDC login is not configured' });
+            return;
+        }
+        try {
+            res.redirect(await startOidcLogin(req, res, getSafeRedirect(req.query.next)));
+        } catch (error) {
+            logger.log(`OIDC login failed to start: ${error}`);
+            res.status(502).json({ error: (error as Error).message });
+        }
+    });
+
+    app.get('/auth/oidc/callback', async (req, res) => {
+        try {
+            const { identity, next } = await finishOidcLogin(req, res);
+            startSession(req, res, identity);
+            audit(req, identity, 'auth.login', identity.name);
+            res.redirect(next);
+        } catch (error) {
+            logger.log(`OIDC login failed: ${error}`);
+            res.redirect(`/login?error=${encodeURIComponent((error as Error).message)}`);
+        }
+    });
+
+    // Newest first, filtered by ?actor=, ?action= and ?target=
+    app.get('/api/audit', requireRole('admin'), (req, res) => {
+        const { actor, action, target } = req.query;
+        const limit = Math.min(Number(req.query.limit) || 100, config.AUTH.AUDIT_LOG_SIZE);
+
+        const entries = database.getAuditLog()
+            .filter(entry => actor === undefined || entry.actor === actor)
+            .filter(entry => action === undefined || entry.action === action)
+            .filter(entry => target === undefined || entry.target === target)
+            .reverse()
+            .slice(0, limit);
+        res.json(entries);
+    });
+}
+
+function registerSessionRoutes(streamWatcher: StreamWatcher) {
+    app.post('/api/streams/:name/record', requireRole('operator'), async (req, res) => {
+        if (!streamWatcher.getStream(req.params.name)) {
+            res.status(404).json({ error: `Stream ${req.params.name} not found` });
+            return;
+        }
+        if (streamWatcher.isRecording(req.params.name)) {
+            res.status(409).json({ error: `Stream ${req.params.name} is already recording` });
+            return;
+        }
+
+        try {
+            const sessionID = await streamWatcher.recordNow(req.params.name);
+            audit(req, getIdentity(res), 'session.record', req.params.name, { sessionID });
+            res.status(202).json({ name: req.params.name, sessionID });
+        } catch (error) {
+            res.status(503).json({ error: (error as Error).message });
+        }
+    });
+
+    app.post('/api/sessions/:sessionID/stop', requireRole('operator'), (req, res) => {
+        if (!streamWatcher.stopSession(req.params.sessionID)) {
+            res.status(404).json({ error: `Session ${req.params.sessionID} is not recording` });
+            return;
+        }
+        audit(req, getIdentity(res), 'session.stop', req.params.sessionID);
+        res.status(202).json({ sessionID: req.params.sessionID, stopping: true });
+    });
+}
+
+// Storage backends are only read once startup has validated STORAGE_BACKENDS
+function registerStorageMounts() {
+    getLocalStorageMounts().forEach(mount => {
+        app.use(mount.route, express.static(path.resolve(mount.path)));
+    });
+}
+
+export function startServer(streamWatcher: StreamWatcher) {
+    registerStorageMounts();
+    registerAuthRoutes();
+    registerStreamRoutes(streamWatcher);
+    registerSessionRoutes(streamWatcher);
+    registerUploadRoutes();
+    registerWebhookRoutes();
+    registerRecordingRoutes();
+
     app.listen(port, () => {
         logger.log(`Server is running on port ${port}`);
     });
@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import getVideoDurationInSeconds from 'get-video-duration';
+import { config } from './config';
+import { database } from './database';
+import { OutputMode, SessionEncoding, SessionError, SessionGap, SourceVariant } from './types';
+import { logger } from './utils/logger';
+
+export const SESSION_MANIFEST = 'session.json';
+
+export interface ManifestChunk {
+    file: string;
+    key: string;
+    size: number;
+    duration: number | null;  // Seconds, null when ffprobe could not read the chunk
+    sha256: string;
+    createdAt: string;
+}
+
+export interface SessionManifest {
+    version: 1;
+    server: string;
+    name: string;
+    sessionID: string;
+    rendition?: string;
+    source: string;
+    variant: SourceVariant | null;
+    encoding: Omit<SessionEncoding, 'variant'> | null;
+    startedAt: string | null;
+    endedAt: string;
+    output: { format: OutputMode; key: string; size: number };
+    chunks: ManifestChunk[];
+    gaps: SessionGap[];
+    errors: SessionError[];
+}
+
+function sha256File(file: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = crypto.createHash('sha256');
+        fs.createReadStream(file)
+            .on('data', data => hash.update(data))
+            .on('end', () => resolve(hash.digest('hex')))
+            .on('error', reject);
+    });
+}
+
+async function describeChunk(name: string, file: string, key: string): Promise<ManifestChunk> {
+    let duration: number | null = null;
+    try {
+        duration = await getVideoDurationInSeconds(file, '/usr/bin/ffprobe');
+    } catch (err) {
+        logger.log(`[${name}] Could not read the duration of ${file}: ${err}`);
+    }
+
+    const record = database.getChunk(file);
+    return {
+        file: path.basename(file),
+        key,
+        size: fs.statSync(file).size,
+        duration,
+        sha256: await sha256File(file),
+        createdAt: record?.createdAt || fs.statSync(file).mtime.toISOString(),
+    };
+}
+
+/**
+ * Everything downstream systems need to know about one recording, in place of the
+ * formatted bits scattered over webhook payloads. Chunks are read from disk, so this
+ * has to run before the session's local chunks are cleaned up.
+ */
+export async function buildSessionManifest(
+    sessionID: string,
+    name: string,
+    chunks: { file: string; key: string }[],
+    output: SessionManifest['output'],
+    rendition?: string
+): Promise<SessionManifest> {
+    const session = database.getSession(sessionID);
+    const encoding = rendition ? session?.renditions?.[rendition] : session?.encoding;
+
+    const describedChunks: ManifestChunk[] = [];
+    for (const chunk of chunks) {
+        describedChunks.push(await describeChunk(name, chunk.file, chunk.key));
+    }
+
+    return {
+        version: 1,
+        server: config.STREAM_SERVER_NAME,
+        name,
+        sessionID,
+        ...(rendition ? { rendition } : {}),
+        source: session?.url || '',
+        variant: encoding?.variant || null,
+        encoding: encoding
+            ? { codecMode: encoding.codecMode, profile: encoding.profile, settings: encoding.settings }
+            : null,
+        startedAt: session?.startedAt || null,
+        endedAt: session?.endedAt || new Date().toISOString(),
+        output,
+        chunks: describedChunks,
+        gaps: (session?.gaps || []).filter(gap => gap.rendition === rendition),
+        errors: (session?.errors || []).filter(error => error.rendition === rendition),
+    };
+}
@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import http from 'http';
+import path from 'path';
+import { Readable } from 'stream';
+import { ReadableStream } from 'stream/web';
+import { DEFAULT_USER_AGENT, fetchStreamUrl, ResolvedRequest } from './request';
+import { StreamRequestOptions } from './types';
+import { logger } from './utils/logger';
+
+// Headers of a media response ffmpeg needs to read it, byte ranges included
+const FORWARDED_HEADERS = ['content-type', 'content-length', 'content-range', 'accept-ranges'];
+
+interface ProxiedSource {
+    options: StreamRequestOptions;
+    key: Buffer;  // Signs the upstream URLs handed out for this source
+}
+
+export interface SourceHandle {
+    getInput: (url: string) => ResolvedRequest;
+    close: () => void;
+}
+
+function isPlaylist(url: string, contentType: string | null): boolean {
+    return /mpegurl/i.test(contentType || '') || new URL(url).pathname.endsWith('.m3u8');
+}
+
+/**
+ * Loopback HTTP proxy ffmpeg reads sources through when they need more than a plain GET.
+ * Every playlist and segment request is made from here with the stream's request options
+ * applied at that moment, so a refreshed token reaches segment requests too and headers,
+ * cookies and tokens never end up on ffmpeg's command line. Playlists are rewritten to
+ * point back here, and only URLs signed for a source are fetched, so the proxy can't be
+ * used to send a source's credentials anywhere else.
+ */
+class SourceProxy {
+    private server: http.Server | null = null;
+    private port: Promise<number> | null = null;
+    private sources = new Map<string, ProxiedSource>();
+
+    async open(options: StreamRequestOptions): Promise<SourceHandle> {
+        const port = await this.listen();
+        const id = crypto.randomBytes(16).toString('hex');
+        const source: ProxiedSource = { options, key: crypto.randomBytes(32) };
+        this.sources.set(id, source);
+
+        return {
+            getInput: (url) => ({
+                url: this.getUrl(port, id, source, url),
+                headers: { 'User-Agent': options.userAgent || DEFAULT_USER_AGENT },
+            }),
+            close: () => {
+                this.sources.delete(id);
+            },
+        };
+    }
+
+    private listen(): Promise<number> {
+        if (!this.port) {
+            this.server = http.createServer((req, res) => {
+                this.handle(req, res);
+            });
+            // Recordings come and go, the proxy shouldn't keep the process alive
+            this.server.unref();
+            this.port = new Promise((resolve, reject) => {
+                this.server!.once('error', reject);
+                this.server!.listen(0, '127.0.0.1', () => {
+                    resolve((this.server!.address() as { port: number }).port);
+                });
+            });
+        }
+        return this.port;
+    }
+
+    private sign(source: ProxiedSource, url: string): string {
+        return crypto.createHmac('sha256', source.key).update(url).digest('base64url');
+    }
+
+    // The file name stays at the end, ffmpeg goes by the extension to accept a segment
+    private getUrl(port: number, id: string, source: ProxiedSource, url: string): string {
+        const name = path.posix.basename(new URL(url).pathname) || 'index';
+        const encoded = Buffer.from(url).toString('base64url');
+        return `http://127.0.0.1:${port}/${id}/${this.sign(source, url)}/${encoded}/${encodeURIComponent(name)}`;
+    }
+
+    private rewritePlaylist(port: number, id: string, source: ProxiedSource, playlist: string, baseUrl: string): string {
+        const proxied = (uri: string) => this.getUrl(port, id, source, new URL(uri, baseUrl).href);
+
+        return playlist
+            .split('\n')
+            .map(line => {
+                const trimmed = line.trim();
+                if (!trimmed) return line;
+                // Keys, init segments, alternate renditions and the like
+                if (trimmed.startsWith('#')) {
+                    return line.replace(/URI="([^"]+)"/g, (_match, uri) => `URI="${proxied(uri)}"`);
+                }
+                return proxied(trimmed);
+            })
+            .join('\n');
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        const [, id, signature, encoded] = (req.url || '').split('/');
+        const source = this.sources.get(id);
+        const url = encoded ? Buffer.from(encoded, 'base64url').toString() : '';
+        const expected = source && url ? Buffer.from(this.sign(source, url)) : null;
+        if (!source || !expected || !signature || expected.length !== signature.length ||
+            !crypto.timingSafeEqual(expected, Buffer.from(signature))) {
+            res.writeHead(404).end();
+            return;
+        }
+
+        // ffmpeg hanging up aborts the upstream request as well
+        const abort = new AbortController();
+        res.on('close', () => abort.abort());
+
+        try {
+            const range = req.headers.range;
+            const response = await fetchStreamUrl(url, source.options, '*/*', range ? { Range: range } : {}, abort.signal);
+
+            if (isPlaylist(url, response.headers.get('content-type'))) {
+                const port = await this.listen();
+                // Relative URIs are relative to where the playlist ended up after redirects
+                const playlist = this.rewritePlaylist(port, id, source, await response.text(), response.url || url);
+                res.writeHead(response.status, { 'Content-Type': 'application/vnd.apple.mpegurl' });
+                res.end(playlist);
+                return;
+            }
+
+            const headers: { [name: string]: string } = {};
+            FORWARDED_HEADERS.forEach(name => {
+                const value = response.headers.get(name);
+                if (value) headers[name] = value;
+            });
+            res.writeHead(response.status, headers);
+            if (!response.body) {
+                res.end();
+                return;
+            }
+            Readable.fromWeb(response.body as ReadableStream).on('error', () => res.destroy()).pipe(res);
+        } catch (err) {
+            if (abort.signal.aborted) return;
+            logger.log(`Source proxy request for ${new URL(url).host} failed: ${err}`);
+            if (!res.headersSent) res.writeHead(502);
+            res.end();
+        }
+    }
+}
+
+export const sourceProxy = new SourceProxy();
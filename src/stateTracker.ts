@@ -3,6 +3,7 @@ import { StreamStates } from './types';
 class StateTracker<T> {
     private static instance: StateTracker<any> | null = null;
     private value: T | null = null;
+    private listeners: ((value: T) => void)[] = [];
 
     private constructor() {
         if (StateTracker.instance) {
@@ -24,6 +25,14 @@ class StateTracker<T> {
 
     public setValue(newValue: T): void {
         this.value = newValue;
+        this.listeners.forEach(listener => listener(newValue));
+    }
+
+    public subscribe(listener: (value: T) => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
     }
 }
 // Export a default instance
@@ -0,0 +1,40 @@
+import fs from 'fs';
+import { Bucket, Storage } from '@google-cloud/storage';
+import { config } from '../config';
+import { GcsStorageConfig, StorageBackend, UploadOptions } from './types';
+
+export class GcsStorage implements StorageBackend {
+    private bucket: Bucket;
+
+    constructor(options: GcsStorageConfig) {
+        this.bucket = new Storage({
+            projectId: options.projectId,
+            keyFilename: options.keyFilename,
+        }).bucket(options.bucket);
+    }
+
+    async getUrl(key: string, expirationInSeconds: number = 3600): Promise<string> {
+        const [url] = await this.bucket.file(key).getSignedUrl({
+            version: 'v4',
+            action: 'read',
+            expires: Date.now() + expirationInSeconds * 1000,
+        });
+        return url;
+    }
+
+    async uploadFile(key: string, fileLocation: string, options: UploadOptions = {}): Promise<string> {
+        const total = (await fs.promises.stat(fileLocation)).size;
+
+        // Resumable uploads stream the file in chunks and retry interrupted chunks themselves
+        await this.bucket.upload(fileLocation, {
+            destination: key,
+            resumable: true,
+            // GCS wants chunk sizes in multiples of 256 KiB
+            chunkSize: Math.max(Math.round(config.STORAGE.PART_SIZE_MB * 4), 1) * 256 * 1024,
+            onUploadProgress: (progress: { bytesWritten: number }) => {
+                options.onProgress?.(progress.bytesWritten, total);
+            },
+        });
+        return this.getUrl(key, 60 * 60 * 24 * 7); // 1 week, the longest a v4 signature allows
+    }
+}
@@ -0,0 +1,128 @@
+import { config } from '../config';
+import { AzureBlobStorage } from './azure';
+import { GcsStorage } from './gcs';
+import { LocalStorage } from './local';
+import { S3Storage } from './s3';
+import { StorageBackend, StorageConfig } from './types';
+
+export { StorageBackend, StorageConfig, UploadOptions } from './types';
+
+// The "default" backend is the S3 bucket from the AWS_* variables, STORAGE_BACKENDS adds or overrides named ones
+function loadStorageConfigs(): { [name: string]: StorageConfig } {
+    return {
+        default: {
+            type: 's3',
+            bucket: config.AWS.S3_BUCKET,
+            region: config.AWS.REGION,
+            accessKeyId: config.AWS.ACCESS_KEY,
+            secretAccessKey: config.AWS.SECRET_ACCESS_KEY,
+            endpoint: config.AWS.ENDPOINT || undefined,
+            forcePathStyle: config.AWS.FORCE_PATH_STYLE,
+        },
+        ...parseBackends(),
+    };
+}
+
+function parseBackends(): { [name: string]: StorageConfig } {
+    let configured: unknown;
+    try {
+        configured = JSON.parse(config.STORAGE.BACKENDS);
+    } catch (err) {
+        throw new Error(`STORAGE_BACKENDS is not valid JSON: ${(err as Error).message}`);
+    }
+    if (!configured || typeof configured !== 'object' || Array.isArray(configured)) {
+        throw new Error('STORAGE_BACKENDS must be a JSON object of named backends');
+    }
+    return configured as { [name: string]: StorageConfig };
+}
+
+let storageConfigs: { [name: string]: StorageConfig } | null = null;
+
+// Parsed on first use, validateStorageConfigs sees to it that happens at startup
+function getStorageConfigs(): { [name: string]: StorageConfig } {
+    if (!storageConfigs) storageConfigs = loadStorageConfigs();
+    return storageConfigs;
+}
+const backends = new Map<string, StorageBackend>();
+
+function getLocalBaseUrl(name: string): string {
+    return `/files/${encodeURIComponent(name)}`;
+}
+
+function createStorage(name: string, storageConfig: StorageConfig): StorageBackend {
+    switch (storageConfig.type) {
+        case 's3':
+            return new S3Storage(storageConfig);
+        case 'local':
+            return new LocalStorage(storageConfig, storageConfig.baseUrl || getLocalBaseUrl(name));
+        case 'azure':
+            return new AzureBlobStorage(storageConfig);
+        case 'gcs':
+            return new GcsStorage(storageConfig);
+        default:
+            throw new Error(`Unknown storage type for backend ${name}`);
+    }
+}
+
+export function hasStorage(name: string): boolean {
+    return name in getStorageConfigs();
+}
+
+export function getStorage(name: string = config.STORAGE.DEFAULT): StorageBackend {
+    let backend = backends.get(name);
+    if (!backend) {
+        const storageConfig = getStorageConfigs()[name];
+        if (!storageConfig) {
+            throw new Error(`Storage backend ${name} is not configured`);
+        }
+        backend = createStorage(name, storageConfig);
+        backends.set(name, backend);
+    }
+    return backend;
+}
+
+/**
+ * Local backends without their own baseUrl are served by the HTTP server.
+ */
+export function getLocalStorageMounts(): { route: string; path: string }[] {
+    return Object.entries(getStorageConfigs())
+        .filter(([, storageConfig]) => storageConfig.type === 'local' && !storageConfig.baseUrl)
+        .map(([name, storageConfig]) => ({
+            route: getLocalBaseUrl(name),
+            path: (storageConfig as { path: string }).path,
+        }));
+}
+
+export function validateStorageConfigs() {
+    if (!hasStorage(config.STORAGE.DEFAULT)) {
+        throw new Error(`Default storage backend ${config.STORAGE.DEFAULT} is not configured`);
+    }
+
+    for (const [name, storageConfig] of Object.entries(getStorageConfigs())) {
+        const missing = (fields: string[]) => fields.filter(field => !(storageConfig as any)[field]);
+        let missingFields: string[];
+
+        switch (storageConfig.type) {
+            case 's3':
+                // The default backend is only used when AWS_S3_BUCKET is set
+                if (name === 'default' && !storageConfig.bucket) continue;
+                missingFields = missing(['bucket']);
+                break;
+            case 'local':
+                missingFields = missing(['path']);
+                break;
+            case 'azure':
+                missingFields = missing(['connectionString', 'container']);
+                break;
+            case 'gcs':
+                missingFields = missing(['bucket']);
+                break;
+            default:
+                throw new Error(`Storage backend ${name} has unknown type ${(storageConfig as any).type}`);
+        }
+
+        if (missingFields.length > 0) {
+            throw new Error(`Storage backend ${name} is missing ${missingFields.join(', ')}`);
+        }
+    }
+}
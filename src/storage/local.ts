@@ -0,0 +1,44 @@
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { LocalStorageConfig, StorageBackend, UploadOptions } from './types';
+
+export class LocalStorage implements StorageBackend {
+    constructor(
+        private options: LocalStorageConfig,
+        private baseUrl: string
+    ) { }
+
+    private resolve(key: string): string {
+        const target = path.resolve(this.options.path, key);
+        if (!target.startsWith(path.resolve(this.options.path) + path.sep)) {
+            throw new Error(`Storage key ${key} escapes ${this.options.path}`);
+        }
+        return target;
+    }
+
+    async getUrl(key: string): Promise<string> {
+        // Files on disk don't expire, the URL is the same every time
+        return `${this.baseUrl.replace(/\/$/, '')}/${key.split('/').map(encodeURIComponent).join('/')}`;
+    }
+
+    async uploadFile(key: string, fileLocation: string, options: UploadOptions = {}): Promise<string> {
+        const target = this.resolve(key);
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+
+        const total = (await fs.promises.stat(fileLocation)).size;
+        let loaded = 0;
+        const source = fs.createReadStream(fileLocation);
+        source.on('data', (chunk) => {
+            loaded += chunk.length;
+            options.onProgress?.(loaded, total);
+        });
+
+        // Copy under a temporary name so readers never see a half-written file
+        const tmpTarget = `${target}.part`;
+        await pipeline(source, fs.createWriteStream(tmpTarget));
+        await fs.promises.rename(tmpTarget, target);
+
+        return this.getUrl(key);
+    }
+}
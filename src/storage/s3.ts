@@ -0,0 +1,185 @@
+import { config } from "../config";
+import { database } from "../database";
+import { logger } from "../utils/logger";
+import { S3StorageConfig, StorageBackend, UploadOptions } from "./types";
+
+const AWS = require('aws-sdk');
+const fs = require('fs');
+
+// S3 rejects parts smaller than 5 MB (except the last one)
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+interface CompletedPart {
+    PartNumber: number;
+    ETag: string;
+    Size?: number;
+}
+
+export class S3Storage implements StorageBackend {
+    private s3: any;
+
+    constructor(
+        private options: S3StorageConfig,
+        private partSize: number = Math.max(config.STORAGE.PART_SIZE_MB * 1024 * 1024, MIN_PART_SIZE),
+        private concurrency: number = Math.max(config.STORAGE.UPLOAD_CONCURRENCY, 1)
+    ) {
+        this.s3 = new AWS.S3({
+            params: { Bucket: options.bucket },
+            region: options.region,
+            credentials: options.accessKeyId
+                ? new AWS.Credentials(options.accessKeyId, options.secretAccessKey || '')
+                : undefined,
+            signatureVersion: 'v4',
+            ...(options.endpoint
+                ? { endpoint: options.endpoint, s3ForcePathStyle: !!options.forcePathStyle }
+                : { hostname: 's3.amazonaws.com' }),
+        });
+    }
+
+    getUrl(bucketFileName: string, expirationInSeconds: number = 3600): Promise<string> {
+        const params = {
+            Bucket: this.options.bucket,
+            Key: bucketFileName,
+            Expires: expirationInSeconds
+        };
+
+        return new Promise((resolve, reject) => {
+            this.s3.getSignedUrl('getObject', params, (err: Error, url: string) => {
+                if (err) reject(err);
+                resolve(url);
+            });
+        });
+    }
+
+    async uploadFile(bucketFileName: string, fileLocation: string, options: UploadOptions = {}): Promise<string> {
+        const size: number = (await fs.promises.stat(fileLocation)).size;
+
+        if (size <= this.partSize) {
+            await this.s3.putObject({
+                Bucket: this.options.bucket,
+                Key: bucketFileName,
+                Body: fs.createReadStream(fileLocation),
+                ContentLength: size,
+            }).promise();
+            options.onProgress?.(size, size);
+        } else {
+            await this.uploadMultipart(bucketFileName, fileLocation, size, options);
+        }
+
+        // Generate and return presigned URL after successful upload
+        return await this.getUrl(bucketFileName, 60 * 60 * 24 * 7); // 1 week
+    }
+
+    /**
+     * Upload a large file in parts read straight from disk. The uploadId is kept in the
+     * database so a retry after a failure or restart only sends the missing parts.
+     */
+    private async uploadMultipart(key: string, fileLocation: string, size: number, options: UploadOptions) {
+        const bucket = this.options.bucket;
+        const completed = new Map<number, CompletedPart>();
+
+        const saved = database.getMultipartUpload(bucket, key, fileLocation);
+        let uploadId: string | undefined;
+        let partSize = this.partSize;
+
+        if (saved) {
+            try {
+                (await this.listParts(key, saved.uploadId)).forEach(part => completed.set(part.PartNumber, part));
+                uploadId = saved.uploadId;
+                partSize = saved.partSize;
+                logger.log(`Resuming upload of ${key} with ${completed.size} part(s) already stored`);
+            } catch (err) {
+                logger.log(`Cannot resume upload of ${key}, starting over: ${err}`);
+                database.removeMultipartUpload(bucket, key, fileLocation);
+                completed.clear();
+            }
+        }
+
+        if (!uploadId) {
+            const created = await this.s3.createMultipartUpload({ Bucket: bucket, Key: key }).promise();
+            uploadId = created.UploadId as string;
+            database.saveMultipartUpload({ bucket, key, file: fileLocation, uploadId, partSize });
+        }
+
+        const partCount = Math.ceil(size / partSize);
+        const partLength = (partNumber: number) => Math.min(partSize, size - (partNumber - 1) * partSize);
+
+        // Parts that don't line up with the file as it is now get sent again
+        completed.forEach(part => {
+            if (part.PartNumber > partCount || part.Size !== partLength(part.PartNumber)) {
+                completed.delete(part.PartNumber);
+            }
+        });
+
+        let loaded = 0;
+        completed.forEach(part => {
+            loaded += partLength(part.PartNumber);
+        });
+        options.onProgress?.(loaded, size);
+
+        const pending: number[] = [];
+        for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+            if (!completed.has(partNumber)) pending.push(partNumber);
+        }
+
+        const worker = async () => {
+            while (pending.length > 0) {
+                const partNumber = pending.shift() as number;
+                const start = (partNumber - 1) * partSize;
+                const length = partLength(partNumber);
+
+                const result = await this.s3.uploadPart({
+                    Bucket: bucket,
+                    Key: key,
+                    UploadId: uploadId,
+                    PartNumber: partNumber,
+                    Body: fs.createReadStream(fileLocation, { start, end: start + length - 1 }),
+                    ContentLength: length,
+                }).promise();
+
+                completed.set(partNumber, { PartNumber: partNumber, ETag: result.ETag, Size: length });
+                loaded += length;
+                options.onProgress?.(loaded, size);
+            }
+        };
+
+        // A failed part rejects here and leaves the upload in place to resume from
+        await Promise.all(Array.from({ length: Math.min(this.concurrency, pending.length) }, worker));
+
+        await this.s3.completeMultipartUpload({
+            Bucket: bucket,
+            Key: key,
+            UploadId: uploadId,
+            MultipartUpload: {
+                Parts: Array.from(completed.values())
+                    .sort((a, b) => a.PartNumber - b.PartNumber)
+                    .map(part => ({ PartNumber: part.PartNumber, ETag: part.ETag })),
+            },
+        }).promise();
+
+        database.removeMultipartUpload(bucket, key, fileLocation);
+    }
+
+    private async listParts(key: string, uploadId: string): Promise<CompletedPart[]> {
+        const parts: CompletedPart[] = [];
+        let marker: number | undefined;
+
+        while (true) {
+            const result = await this.s3.listParts({
+                Bucket: this.options.bucket,
+                Key: key,
+                UploadId: uploadId,
+                PartNumberMarker: marker,
+            }).promise();
+
+            (result.Parts || []).forEach((part: CompletedPart) => {
+                parts.push({ PartNumber: part.PartNumber, ETag: part.ETag, Size: part.Size });
+            });
+
+            if (!result.IsTruncated) break;
+            marker = result.NextPartNumberMarker;
+        }
+
+        return parts;
+    }
+}
@@ -0,0 +1,40 @@
+export interface UploadOptions {
+    onProgress?: (loaded: number, total: number) => void;
+}
+
+export interface StorageBackend {
+    // Upload a local file and return a URL it can be downloaded from
+    uploadFile(key: string, fileLocation: string, options?: UploadOptions): Promise<string>;
+    getUrl(key: string, expirationInSeconds?: number): Promise<string>;
+}
+
+export interface S3StorageConfig {
+    type: 's3';
+    bucket: string;
+    region?: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    endpoint?: string;        // MinIO, R2 or any other S3-compatible endpoint
+    forcePathStyle?: boolean;
+}
+
+export interface LocalStorageConfig {
+    type: 'local';
+    path: string;             // Local directory or NFS mount
+    baseUrl?: string;         // Defaults to the /files/<backend> route of this server
+}
+
+export interface AzureStorageConfig {
+    type: 'azure';
+    connectionString: string;
+    container: string;
+}
+
+export interface GcsStorageConfig {
+    type: 'gcs';
+    bucket: string;
+    projectId?: string;
+    keyFilename?: string;
+}
+
+export type StorageConfig = S3StorageConfig | LocalStorageConfig | AzureStorageConfig | GcsStorageConfig;
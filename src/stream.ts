@@ -1,16 +1,54 @@
 import fs from "fs";
 import path from "path";
 import { config } from "./config";
-import { uploadFile } from "./s3";
+import { uploadQueue } from "./uploadQueue";
 import ffmpeg from "fluent-ffmpeg";
 import { logger } from "./utils/logger";
 import globalTracker from "./globalTracker";
-import getVideoDurationInSeconds from "get-video-duration";
-import { checkM3U8Availability } from "./functions";
+import { watch } from "chokidar";
+import { buildSessionManifest, SESSION_MANIFEST } from "./sessionManifest";
+import { generateThumbnails } from "./thumbnails";
+import { hasSourceEnded, livenessMonitor } from "./liveness";
 import { sendWebhookEvent } from "./webhook";
+import { raiseAlert } from "./alerts";
+import { database } from "./database";
+import { getStorage } from "./storage";
+import {
+  CodecMode,
+  EncodingProfile,
+  HLSArchiveOptions,
+  OutputMode,
+  PreferredQuality,
+  ReconnectOptions,
+  RenditionConfig,
+  SessionEncoding,
+  SessionGap,
+  SourceVariant,
+  StreamConfig,
+  StreamRequestOptions,
+  ThumbnailLinks,
+} from "./types";
+import {
+  getEncodingOptions,
+  getEncodingProfile,
+  hasEncodingProfile,
+} from "./encoding";
+import {
+  describeSelection,
+  selectStream,
+  StreamSelection,
+  validatePreferredQuality,
+} from "./m3u8";
+import { sourceProxy } from "./sourceProxy";
+import {
+  getFfmpegInputOptions,
+  needsSourceProxy,
+  resolveRequest,
+  ResolvedRequest,
+} from "./request";
 
 // size to KB, MB conversion
-function formatBytes(bytes: number, decimals = 2): string {
+export function formatBytes(bytes: number, decimals = 2): string {
   if (bytes === 0) return "0 Bytes";
 
   const k = 1024;
@@ -22,101 +60,398 @@ function formatBytes(bytes: number, decimals = 2): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + " " + sizes[i];
 }
 
+// Directory ffmpeg writes raw segments to before they are handed to onBuffer
+export function getTempDir(name: string): string {
+  return path.join(__dirname, "temp", name);
+}
+
+// Storage key for a file inside a local recording directory
+export function getStorageKey(outputDir: string, fileName: string): string {
+  // replace backslashes with forward slashes
+  const dirName = outputDir.replace(/\\/g, "/").replace("recordings/", "");
+  return `${config.AWS.S3_SAVE_PATH}/${config.STREAM_SERVER_NAME}/${dirName}/${fileName}`;
+}
+
 async function selectStreamQuality(
   name: string,
   masterM3u8Url: string,
-  preferredQuality: "highest" | "lowest" | number = "lowest"
-): Promise<string> {
+  preferredQuality: PreferredQuality = "lowest",
+  requestOptions?: StreamRequestOptions
+): Promise<StreamSelection> {
   try {
-    const response = await fetch(masterM3u8Url, {
-      headers: {
-        "User-Agent": "Mozilla/5.0",
-        Accept: "application/vnd.apple.mpegurl",
-      },
+    const selection = await selectStream(
+      masterM3u8Url,
+      preferredQuality,
+      requestOptions
+    );
+    logger.log(`[${name}] Selected ${describeSelection(selection)}`);
+    return selection;
+  } catch (error) {
+    logger.log(
+      `[${name}] Error parsing playlist, falling back to original URL: ${error}`
+    );
+    return { url: masterM3u8Url };
+  }
+}
+
+// The variant a recording was taken from, kept with the session's encoding
+function getSourceVariant(
+  selection: StreamSelection
+): SourceVariant | undefined {
+  if (!selection.variant) return undefined;
+
+  const { uri, bandwidth, resolution, codecs } = selection.variant;
+  return {
+    url: uri,
+    bandwidth,
+    resolution: resolution
+      ? `${resolution.width}x${resolution.height}`
+      : undefined,
+    codecs,
+    audio: selection.audio?.name,
+  };
+}
+
+// Codecs the MP4 muxer takes as they are, anything else has to be transcoded
+const MP4_VIDEO_CODECS = ["h264", "hevc", "av1"];
+const MP4_AUDIO_CODECS = ["aac", "mp3", "ac3", "eac3"];
+
+interface SourceCodecs {
+  video?: string;
+  audio?: string;
+}
+
+function probeSource(input: ResolvedRequest): Promise<ffmpeg.FfprobeData> {
+  return new Promise((resolve, reject) => {
+    const probeCommand = ffmpeg(input.url);
+    probeCommand.setFfprobePath("/usr/bin/ffprobe");
+    probeCommand.ffprobe(getFfmpegInputOptions(input), (err, data) => {
+      if (err) return reject(err);
+      resolve(data);
     });
+  });
+}
 
-    if (
-      !response.headers
-        .get("Content-Type")
-        ?.includes("application/vnd.apple.mpegurl")
-    ) {
-      throw new Error("Invalid stream type. Expected m3u8 playlist.");
+async function probeSourceCodecs(input: ResolvedRequest): Promise<SourceCodecs> {
+  const data = await probeSource(input);
+  return {
+    video: data.streams.find((s) => s.codec_type === "video")?.codec_name,
+    audio: data.streams.find((s) => s.codec_type === "audio")?.codec_name,
+  };
+}
+
+// Audio-only sources have no picture to preview, `-map 0:v:0` would keep ffmpeg from starting
+async function hasVideoStream(
+  name: string,
+  input: ResolvedRequest,
+  codecs: SourceCodecs
+): Promise<boolean> {
+  // Passthrough has probed the source already
+  if (codecs.video || codecs.audio) return !!codecs.video;
+  try {
+    return !!(await probeSourceCodecs(input)).video;
+  } catch (err) {
+    logger.log(
+      `[${name}] Could not probe for video, recording without a preview: ${err}`
+    );
+    return false;
+  }
+}
+
+// Passthrough only works when the source codecs fit in MP4, fall back to transcoding otherwise
+async function resolveCodecMode(
+  name: string,
+  videoInput: ResolvedRequest,
+  audioInput: ResolvedRequest | null,
+  codecMode: CodecMode
+): Promise<{ mode: CodecMode; codecs: SourceCodecs }> {
+  if (codecMode !== "copy") return { mode: "transcode", codecs: {} };
+
+  try {
+    const codecs = await probeSourceCodecs(videoInput);
+    if (audioInput) {
+      // Alternate audio comes from its own playlist
+      codecs.audio = (await probeSourceCodecs(audioInput)).audio;
     }
-    const manifest = await response.text();
+    const videoOk = !codecs.video || MP4_VIDEO_CODECS.includes(codecs.video);
+    const audioOk = !codecs.audio || MP4_AUDIO_CODECS.includes(codecs.audio);
 
-    // Check if this is a direct stream (contains EXTINF tags) rather than a master playlist
-    if (manifest.includes("#EXTINF")) {
-      logger.log(`[${name}] Direct stream detected, using original URL`);
-      return masterM3u8Url;
+    if ((codecs.video || codecs.audio) && videoOk && audioOk) {
+      logger.log(
+        `[${name}] Recording in passthrough mode (video: ${
+          codecs.video || "none"
+        }, audio: ${codecs.audio || "none"})`
+      );
+      return { mode: "copy", codecs };
     }
 
-    // Parse the M3U8 manifest to find different quality streams
-    const streamUrls: { bandwidth: number; url: string }[] = [];
-    const lines = manifest.split("\n");
-    let currentBandwidth: number | null = null;
+    logger.log(
+      `[${name}] Source codecs not MP4-compatible (video: ${
+        codecs.video || "none"
+      }, audio: ${codecs.audio || "none"}), falling back to transcoding`
+    );
+    return { mode: "transcode", codecs };
+  } catch (err) {
+    logger.log(
+      `[${name}] Could not probe source codecs, falling back to transcoding: ${err}`
+    );
+    return { mode: "transcode", codecs: {} };
+  }
+}
+
+// Encoders for gap fillers of passthrough recordings, they have to match the source codecs
+const FILLER_VIDEO_ENCODERS: { [codec: string]: string } = {
+  h264: "libx264",
+  hevc: "libx265",
+};
+const FILLER_AUDIO_ENCODERS: { [codec: string]: string } = {
+  aac: "aac",
+  mp3: "libmp3lame",
+  ac3: "ac3",
+  eac3: "eac3",
+};
+
+/**
+ * Write black video and silence for the time a source was gone, in the format the
+ * recording has, so the combined file stays time-aligned. The archive step copies
+ * streams, so the filler only joins cleanly if it matches the surrounding chunks.
+ */
+async function writeGapFiller(
+  file: string,
+  durationMs: number,
+  videoInput: ResolvedRequest,
+  audioInput: ResolvedRequest | null,
+  mode: CodecMode,
+  profile: EncodingProfile
+): Promise<void> {
+  const video = (await probeSource(videoInput)).streams.find(
+    (s) => s.codec_type === "video"
+  );
+  const audio = (await probeSource(audioInput || videoInput)).streams.find(
+    (s) => s.codec_type === "audio"
+  );
+  if (!video && !audio) {
+    throw new Error("Source has no audio or video to match");
+  }
+
+  const fillerCommand = ffmpeg();
+  fillerCommand.setFfmpegPath("/usr/bin/ffmpeg");
+  const outputOptions: string[] = [];
+
+  if (video) {
+    const frameRate =
+      video.r_frame_rate && video.r_frame_rate !== "0/0"
+        ? video.r_frame_rate
+        : "25";
+    fillerCommand.input(
+      `color=c=black:s=${video.width}x${video.height}:r=${frameRate}`
+    );
+    fillerCommand.inputOptions(["-f", "lavfi"]);
+  }
+  if (audio) {
+    fillerCommand.input(
+      `anullsrc=r=${audio.sample_rate || 48000}:cl=${
+        audio.channel_layout || "stereo"
+      }`
+    );
+    fillerCommand.inputOptions(["-f", "lavfi"]);
+  }
 
-    for (const line of lines) {
-      if (line.includes("#EXT-X-STREAM-INF")) {
-        const bandwidthMatch = line.match(/BANDWIDTH=(\d+)/);
-        currentBandwidth = bandwidthMatch ? parseInt(bandwidthMatch[1]) : null;
-      } else if (line.trim() && !line.startsWith("#") && currentBandwidth) {
-        const streamUrl = new URL(line, masterM3u8Url).href;
-        streamUrls.push({ bandwidth: currentBandwidth, url: streamUrl });
-        currentBandwidth = null;
+  if (mode === "copy") {
+    if (video) {
+      const encoder = FILLER_VIDEO_ENCODERS[video.codec_name || ""];
+      if (!encoder) {
+        throw new Error(`No encoder to fill gaps in ${video.codec_name} video`);
       }
+      outputOptions.push("-c:v", encoder, "-pix_fmt", video.pix_fmt || "yuv420p");
+      if (video.codec_name === "hevc") outputOptions.push("-tag:v", "hvc1");
     }
-
-    if (streamUrls.length === 0) {
-      return masterM3u8Url;
+    if (audio) {
+      const encoder = FILLER_AUDIO_ENCODERS[audio.codec_name || ""];
+      if (!encoder) {
+        throw new Error(`No encoder to fill gaps in ${audio.codec_name} audio`);
+      }
+      outputOptions.push("-c:a", encoder);
     }
+  } else {
+    outputOptions.push(...getEncodingOptions(profile));
+  }
 
-    // Sort streams by bandwidth
-    streamUrls.sort((a, b) => a.bandwidth - b.bandwidth);
+  fillerCommand.outputOptions([
+    ...outputOptions,
+    "-t",
+    (durationMs / 1000).toFixed(3),
+    "-f",
+    "mp4",
+  ]);
+  fillerCommand.output(file);
 
-    let selectedStream: string;
-    if (preferredQuality === "highest") {
-      selectedStream = streamUrls[streamUrls.length - 1].url;
-      logger.log(
-        `[${name}] Selected highest quality: ${
-          streamUrls[streamUrls.length - 1].bandwidth / 1000
-        }kbps`
-      );
-    } else if (preferredQuality === "lowest") {
-      selectedStream = streamUrls[0].url;
-      logger.log(
-        `[${name}] Selected lowest quality: ${
-          streamUrls[0].bandwidth / 1000
-        }kbps`
-      );
-    } else {
-      // Find the closest matching bandwidth
-      const closest = streamUrls.reduce((prev, curr) => {
-        return Math.abs(curr.bandwidth - preferredQuality) <
-          Math.abs(prev.bandwidth - preferredQuality)
-          ? curr
-          : prev;
-      });
-      selectedStream = closest.url;
-      logger.log(
-        `[${name}] Selected closest quality to ${
-          preferredQuality / 1000
-        }kbps: ${closest.bandwidth / 1000}kbps`
-      );
-    }
+  await new Promise<void>((resolve, reject) => {
+    fillerCommand.on("end", () => resolve());
+    fillerCommand.on("error", reject);
+    fillerCommand.run();
+  });
+}
 
-    return selectedStream;
-  } catch (error) {
-    console.error("Error parsing master playlist:", error);
-    logger.log(`[${name}]  Falling back to original URL`);
-    return masterM3u8Url;
+// Every ffmpeg run of a recording numbers its segments from zero, the run keeps them apart
+function getSegmentRun(file: string): number {
+  const match = /^output-(\d+)-/.exec(file);
+  return match ? Number(match[1]) : 0;
+}
+
+const SEGMENT_LIST_PREFIX = "segments-";
+
+// Segments ffmpeg has closed, read from the segment list of every run
+function readClosedSegments(tmpDir: string): string[] {
+  return fs
+    .readdirSync(tmpDir)
+    .filter((file) => file.startsWith(SEGMENT_LIST_PREFIX))
+    .flatMap((file) =>
+      fs
+        .readFileSync(path.join(tmpDir, file), "utf8")
+        .split("\n")
+        .slice(0, -1) // The last line may still be being written
+        .map((line) => path.basename(line.trim()))
+    );
+}
+
+export type UploadProgressCallback = (
+  file: string,
+  loaded: number,
+  total: number
+) => void;
+
+// rename() fails across filesystems, temp/ and recordings/ may not share one
+async function moveFile(from: string, to: string): Promise<void> {
+  try {
+    await fs.promises.rename(from, to);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "EXDEV") throw err;
+    await fs.promises.copyFile(from, to);
+    await fs.promises.unlink(from);
+  }
+}
+
+export interface RecordingHandle {
+  encoding: SessionEncoding;
+  preview: string; // Latest picture, once ffmpeg has written one
+}
+
+const PREVIEW_FILE = "preview.jpg";
+
+interface ActiveSession {
+  stop: AbortController;
+  recordings: RecordingHandle[]; // One per rendition, once its ffmpeg runs
+}
+
+// Sessions keyed by sessionID from the moment they are created until they end
+const activeSessions = new Map<string, ActiveSession>();
+
+/**
+ * Registers a session before anything about its source is known, so a stop that comes
+ * in while the source is still being probed is honoured. The returned signal is aborted
+ * by stopRecording, a recording that has not started ffmpeg yet never starts it.
+ */
+export function beginRecordingSession(sessionID: string): AbortSignal {
+  let session = activeSessions.get(sessionID);
+  if (!session) {
+    session = { stop: new AbortController(), recordings: [] };
+    activeSessions.set(sessionID, session);
   }
+  return session.stop.signal;
 }
 
+export function endRecordingSession(sessionID: string) {
+  activeSessions.delete(sessionID);
+}
+
+function removeRecordings(sessionID: string, recordings: RecordingHandle[]) {
+  const session = activeSessions.get(sessionID);
+  if (session) {
+    session.recordings = session.recordings.filter(
+      (r) => !recordings.includes(r)
+    );
+  }
+}
+
+// Preview of a recording in progress, the first rendition that has one
+export function getRecordingPreview(sessionID: string): string | null {
+  const recording = (activeSessions.get(sessionID)?.recordings || []).find(
+    (r) => fs.existsSync(r.preview)
+  );
+  return recording ? recording.preview : null;
+}
+
+export function stopRecording(sessionID: string): boolean {
+  const session = activeSessions.get(sessionID);
+  if (!session) return false;
+
+  session.stop.abort();
+  return true;
+}
+
+// Errors go into the session metadata and out as a deduplicated streamError alert
+function reportStreamError(
+  sessionID: string,
+  name: string,
+  message: string,
+  rendition?: string
+) {
+  database.addSessionError(sessionID, message, rendition);
+  raiseAlert("streamError", `streamError:${name}`, {
+    name,
+    url: database.getSession(sessionID)?.url || "",
+    sessionID,
+    error: message,
+    ...(rendition ? { rendition } : {}),
+  }).catch((err) =>
+    logger.log(`[${name}] Could not raise streamError alert: ${err}`)
+  );
+}
+
+// Encoding of a session, or of one of its renditions
+function getSessionEncoding(
+  sessionID: string,
+  rendition?: string
+): SessionEncoding | undefined {
+  const session = database.getSession(sessionID);
+  return rendition ? session?.renditions?.[rendition] : session?.encoding;
+}
+
+// One output of a recording: a rendition, or the whole stream
+export interface RecordingOutput {
+  rendition?: string;
+  codecMode?: CodecMode;
+  encodingProfile?: string;
+  // Transcoded outputs get a keyframe every this many seconds, defaults to the chunk duration
+  keyframeInterval?: number;
+  onChunk: (file: string, fileSize: number) => Promise<void>; // takes ownership of the file
+  onFileReady: (file: string, fileSize: number) => void;
+  onEnd: (directory: string, streamFiles: string[]) => Promise<void>;
+}
+
+interface OutputPipeline {
+  output: RecordingOutput;
+  label: string;
+  tmpDir: string; // temp/<name> or temp/<name>/<rendition>, recovery looks there
+  mode: CodecMode;
+  encodingProfile: string;
+  profile: EncodingProfile;
+  pendingScan: Promise<void> | null;
+}
+
+/**
+ * Record a stream into one or more outputs with a single ffmpeg process. The source is
+ * pulled and decoded once and every output is encoded from the same frames, so
+ * transcoded outputs get their keyframes, and with them their chunk boundaries, at the
+ * same timestamps. Resolves with one handle per output, or null when stopped before
+ * recording started.
+ */
 export async function downloadHLSTOMp4(
   name: string,
   m3u8Url: string,
   chunkDuration: number = 5, // Default chunk duration in seconds
-  onBuffer: (buffer: Buffer) => Promise<void>,
+  outputs: RecordingOutput[],
   onTimeUpdate: (args: {
     frames: number;
     currentFps: number;
@@ -125,268 +460,527 @@ export async function downloadHLSTOMp4(
     timemark: string;
     percent?: number | undefined;
   }) => void,
-  onFileReady: (file: string, fileSize: number) => void,
-  onEnd: (directory: string, streamFiles: string[]) => Promise<void>,
-  preferredQuality: "highest" | "lowest" | number = "lowest",
-  maxRuntime: number = 8 * 60 * 60 * 1000 // Default max runtime: 8 hours
-): Promise<void> {
-  const selectedStreamUrl = await selectStreamQuality(
+  preferredQuality: PreferredQuality = "lowest",
+  maxRuntime: number = 8 * 60 * 60 * 1000, // Default max runtime: 8 hours
+  requestOptions: StreamRequestOptions = {},
+  reconnect: ReconnectOptions = {},
+  onGap: (gap: SessionGap) => void = () => {},
+  onError: (message: string) => void = () => {},
+  stopSignal: AbortSignal = new AbortController().signal
+): Promise<RecordingHandle[] | null> {
+  const selection = await selectStreamQuality(
     name,
     m3u8Url,
-    preferredQuality
+    preferredQuality,
+    requestOptions
   );
-  const streamStatus = {
-    m3u8StreamEndedAt: 0,
-    forceEnded: false,
-  };
+  // Sources with credentials are read through the source proxy, which applies them,
+  // with a current token, to every playlist and segment request ffmpeg makes
+  const source = needsSourceProxy(requestOptions)
+    ? await sourceProxy.open(requestOptions)
+    : null;
+  async function resolveInputs() {
+    const resolve = async (url: string) =>
+      source ? source.getInput(url) : resolveRequest(url, requestOptions);
+    return {
+      videoInput: await resolve(selection.url),
+      audioInput: selection.audioUrl ? await resolve(selection.audioUrl) : null,
+    };
+  }
+  let { videoInput, audioInput } = await resolveInputs();
+  // The source is probed once, outputs that asked for passthrough share the outcome
+  const { mode: copyMode, codecs } = await resolveCodecMode(
+    name,
+    videoInput,
+    audioInput,
+    outputs.some((output) => output.codecMode === "copy") ? "copy" : "transcode"
+  );
+  const preview =
+    config.PREVIEW.ENABLED && (await hasVideoStream(name, videoInput, codecs));
+  // Stopped while the source was being probed, there is nothing to record
+  if (stopSignal.aborted) {
+    logger.log(`[${name}] Stopped before recording started`);
+    source?.close();
+    return null;
+  }
+
+  const pipelines: OutputPipeline[] = outputs.map((output) => {
+    const encodingProfile =
+      output.encodingProfile || config.ENCODING.DEFAULT_PROFILE;
+    const label = output.rendition ? `${name}/${output.rendition}` : name;
+    return {
+      output,
+      label,
+      tmpDir: getTempDir(label),
+      mode: output.codecMode === "copy" ? copyMode : "transcode",
+      encodingProfile,
+      profile: getEncodingProfile(encodingProfile),
+      pendingScan: null,
+    };
+  });
+  const anyTranscoded = pipelines.some((p) => p.mode === "transcode");
+  const gracePeriodMs =
+    (reconnect.gracePeriodSeconds ?? config.RECONNECT.GRACE_PERIOD_S) * 1000;
+  const fillGaps = reconnect.fillGaps ?? config.RECONNECT.FILL_GAPS;
+  // The first output's directory holds the preview
+  const previewFile = path.join(pipelines[0].tmpDir, PREVIEW_FILE);
 
   // Create a new repository named temp/ (creates a new directory in the system's temp directory), using fs
-  const tmpDir = path.join(__dirname, "temp", name);
-  if (!fs.existsSync(tmpDir)) {
-    fs.mkdirSync(tmpDir, { recursive: true });
+  for (const pipeline of pipelines) {
+    if (!fs.existsSync(pipeline.tmpDir)) {
+      fs.mkdirSync(pipeline.tmpDir, { recursive: true });
+    }
   }
 
-  async function cleanup() {
+  async function cleanup(pipeline: OutputPipeline) {
     // Only clear the specific directory of name, not the entire temp directory
-    fs.rmdirSync(tmpDir, { recursive: true });
+    fs.rmSync(pipeline.tmpDir, { recursive: true, force: true });
   }
 
-  const fileWatcherInterval = setInterval(async () => {
+  let stopRequested = false;
+  let finished = false;
+  let ffmpegCommand: ffmpeg.FfmpegCommand;
+  let run = 0;
+  let reconnecting = false;
+  let lastOutputAt = 0;
+  // Set while the source is gone, cleared once a restarted ffmpeg produces output again
+  let outage: {
+    startedAt: number;
+    restartedAt: number;
+    filledUntil: number;
+    filled: boolean;
+  } | null = null;
+
+  async function scanFiles(pipeline: OutputPipeline, flushAll: boolean) {
+    const { tmpDir, label, output } = pipeline;
     try {
-      // get files from tmpDir along with their last modified time
-      const streamFiles = fs.readdirSync(tmpDir).map((file) => {
-        return {
+      const closedSegments = new Set(readClosedSegments(tmpDir));
+      const segments = fs
+        .readdirSync(tmpDir)
+        .filter((file) => file.endsWith(".mp4"))
+        .map((file) => ({
           name: file,
-          mtime: fs.statSync(path.join(tmpDir, file)).mtime.getTime(),
           ctime: fs.statSync(path.join(tmpDir, file)).ctime.getTime(),
-        };
-      });
-
-      // Check if the first file on list is locked(being written to)
-      const recentFiles = streamFiles.sort((a, b) => a.ctime - b.ctime);
-
-      let toProcess: {
-        name: string;
-        mtime: number;
-        ctime: number;
-      }[] = [];
-      let streamEnded = false;
+        }))
+        .sort((a, b) => a.ctime - b.ctime);
 
-      for (const file of recentFiles) {
-        let isReady = false;
+      const toProcess = segments.filter(
+        (file) =>
+          // ffmpeg has already exited, every remaining file is final
+          flushAll ||
+          closedSegments.has(file.name) ||
+          // Fillers are written in one go, segments of an earlier run won't grow anymore
+          file.name.startsWith("gap-") ||
+          getSegmentRun(file.name) < run
+      );
 
+      // hand the finished file over, onChunk moves it out of tmpDir
+      for (const file of toProcess) {
         try {
-          let videoDuration = await getVideoDurationInSeconds(
-            path.join(tmpDir, file.name),
-            "/usr/bin/ffprobe"
-          );
-
-          let actualDuration = Math.ceil(videoDuration);
-          let percentage = Math.floor((videoDuration / chunkDuration) * 100);
-
-          onFileReady(
-            file.name + `[${actualDuration}/${chunkDuration}] (${percentage}%)`,
-            0
-          );
-
-          if (actualDuration >= chunkDuration) {
-            isReady = isReady || true;
-          } else if (
-            streamStatus.m3u8StreamEndedAt > 0 &&
-            streamStatus.m3u8StreamEndedAt < Date.now() - 60 * 1_000
-          ) {
-            // if the stream ended, the file is ready to be processed
-            isReady = isReady || true;
-            streamEnded = true;
-          } else if (!(await checkM3U8Availability(m3u8Url))) {
-            // if the stream ended, the file is ready to be processed
-            isReady = isReady || true;
-            streamEnded = true;
-          }
+          const filePath = path.join(tmpDir, file.name);
+          const fileSize = fs.statSync(filePath).size;
+          output.onFileReady(file.name, fileSize);
+          await output.onChunk(filePath, fileSize);
         } catch (err) {
-          logger.log(`[${name}] Error checking video duration: ${err}`);
-        }
-
-        if (isReady) {
-          toProcess.push(file);
+          logger.log(`[${label}] Error processing file ${file.name}: ${err}`);
         }
       }
+    } catch (err) {
+      logger.log(`[${label}] Error in file watcher: ${err}`);
+    }
+  }
 
-      // get the buffer of that file and call onBuffer
-      for (const file of toProcess) {
-        try {
-          const buffer = fs.readFileSync(path.join(tmpDir, file.name));
-          onFileReady(file.name, buffer.length);
-          await onBuffer(buffer);
+  // Scans never overlap, otherwise the same file could be handed to onChunk twice
+  async function processFiles(
+    pipeline: OutputPipeline,
+    flushAll: boolean = false
+  ) {
+    while (pipeline.pendingScan) {
+      await pipeline.pendingScan;
+    }
+    pipeline.pendingScan = scanFiles(pipeline, flushAll);
+    try {
+      await pipeline.pendingScan;
+    } finally {
+      pipeline.pendingScan = null;
+    }
+  }
 
-          // delete the temporary file after processing
-          fs.unlinkSync(path.join(tmpDir, file.name));
-        } catch (err) {
-          logger.log(`[${name}] Error processing file ${file.name}: ${err}`);
-        }
-      }
+  // ffmpeg appends a segment to its list once the segment is closed
+  const fileWatcher = watch(
+    pipelines.map((p) => p.tmpDir),
+    { depth: 0, ignoreInitial: true }
+  );
+  fileWatcher.on("all", (_event, file) => {
+    const fileName = path.basename(file);
+    const pipeline = pipelines.find(
+      (p) => path.resolve(p.tmpDir) === path.resolve(path.dirname(file))
+    );
+    if (
+      pipeline &&
+      (fileName.startsWith(SEGMENT_LIST_PREFIX) ||
+        (fileName.startsWith("gap-") && fileName.endsWith(".mp4")))
+    ) {
+      processFiles(pipeline);
+    }
+  });
+  fileWatcher.on("error", (err) => {
+    logger.log(`[${name}] File watcher error: ${err}`);
+  });
 
-      if (streamEnded) {
-        streamStatus.forceEnded = true;
-      }
-    } catch (err) {
-      logger.log(`[${name}] Error in file watcher interval: ${err}`);
+  // Only the source still needs polling, its playlist tells whether it is still going
+  async function checkSource() {
+    if (reconnecting) return;
+    const liveness = await livenessMonitor.check(m3u8Url, requestOptions);
+    if (hasSourceEnded(liveness)) {
+      requestStop(`Source is ${liveness.status}`);
     }
+  }
+  const livenessInterval = setInterval(() => {
+    checkSource();
   }, 30 * 1_000); // check every 30 seconds
 
   // Set a global timeout to prevent the function from running indefinitely
-  const globalTimeout = setTimeout(async () => {
-    logger.log(
-      `[${name}] Global timeout reached, force ending stream processing`
-    );
-    streamStatus.forceEnded = true;
-    streamStatus.m3u8StreamEndedAt = Date.now();
+  const globalTimeout = setTimeout(() => {
+    requestStop("Global timeout reached");
+  }, maxRuntime);
+
+  async function finish() {
+    if (finished) return;
+    finished = true;
 
-    // Wait a bit for the normal handlers to trigger
-    await new Promise((resolve) => setTimeout(resolve, 30000));
+    clearTimeout(globalTimeout);
+    clearInterval(livenessInterval);
+    await fileWatcher.close();
+    source?.close();
 
-    // If still running, force clean up
-    if (fileWatcherInterval) {
-      clearInterval(fileWatcherInterval);
-      const streamFiles = fs.readdirSync(tmpDir);
-      await onEnd(tmpDir, streamFiles);
-      await cleanup();
+    // ffmpeg has exited, hand everything still in the temp directories over now.
+    // One output at a time, archiving is as heavy as recording
+    for (const pipeline of pipelines) {
+      await processFiles(pipeline, true);
+      const streamFiles = fs.readdirSync(pipeline.tmpDir);
+      await pipeline.output.onEnd(pipeline.tmpDir, streamFiles);
+      await cleanup(pipeline);
     }
-  }, maxRuntime);
+  }
 
-  // Save HLS to MP4 chunks in the temporary directory
-  const output = path.join(tmpDir, "output-%03d.mp4");
-  const ffmpegCommand = ffmpeg();
+  // Segmenting and encoding options of one output
+  function getOutputOptions(pipeline: OutputPipeline, runID: string): string[] {
+    const segmentOptions = [
+      // '-movflags', 'faststart',
+      "-f",
+      "segment",
+      "-segment_time",
+      chunkDuration.toString(),
+      "-reset_timestamps",
+      "1",
+      "-segment_start_number",
+      "0",
+      "-segment_format",
+      "mp4",
+      // Closed segments are listed here, that's what hands them over
+      "-segment_list",
+      path.join(pipeline.tmpDir, `${SEGMENT_LIST_PREFIX}${runID}.txt`),
+      "-segment_list_type",
+      "flat",
+    ];
+    // Alternate audio is a separate playlist, mux it with the video variant
+    const maps = audioInput ? ["-map", "0:v:0", "-map", "1:a:0"] : [];
 
-  ffmpegCommand.setFfmpegPath("/usr/bin/ffmpeg");
+    if (pipeline.mode === "copy") {
+      // No re-encoding, segments are cut on the first source keyframe after chunkDuration
+      return [
+        ...maps,
+        "-c",
+        "copy",
+        ...(codecs.audio === "aac" ? ["-bsf:a", "aac_adtstoasc"] : []), // ADTS headers are not allowed in MP4
+        ...(codecs.video === "hevc" ? ["-tag:v", "hvc1"] : []), // Tag Apple players recognize
+        ...segmentOptions,
+        "-max_muxing_queue_size 1024", // Handle large queues
+        "-avoid_negative_ts make_zero", // Handle negative timestamps
+      ];
+    }
 
-  ffmpegCommand.input(selectedStreamUrl);
-  ffmpegCommand.inputOptions([
-    "-re", // Read input at native frame rate
-    "-hwaccel auto", // Enable hardware acceleration if available
-    "-i_qfactor 0.71", // Improve quality
-    "-qcomp 0.6", // Compression parameter
-  ]);
-  ffmpegCommand.videoCodec("libx264");
-  ffmpegCommand.audioCodec("aac");
-  ffmpegCommand.outputOptions([
-    // '-movflags', 'faststart',
-    "-f",
-    "segment",
-    "-segment_time",
-    chunkDuration.toString(),
-    "-reset_timestamps",
-    "1",
-    "-segment_start_number",
-    "0",
-    "-segment_format",
-    "mp4",
-    "-force_key_frames",
-    `expr:gte(t,n_forced*${chunkDuration})`,
-    "-sc_threshold",
-    "0", // Disable scene detection
-    "-preset fast", // Fast encoding preset
-    "-max_muxing_queue_size 1024", // Handle large queues
-    "-avoid_negative_ts make_zero", // Handle negative timestamps
-  ]);
-  ffmpegCommand.output(output);
-  ffmpegCommand.on("end", async () => {
-    logger.log("ffmpeg end");
-    streamStatus.m3u8StreamEndedAt = Date.now();
-    clearTimeout(globalTimeout);
+    logger.log(
+      `[${pipeline.label}] Transcoding with encoding profile ${pipeline.encodingProfile}`
+    );
+    const keyframeInterval = pipeline.output.keyframeInterval ?? chunkDuration;
+    return [
+      ...maps,
+      ...getEncodingOptions(pipeline.profile),
+      ...segmentOptions,
+      "-force_key_frames",
+      `expr:gte(t,n_forced*${keyframeInterval})`,
+      "-sc_threshold",
+      "0", // Disable scene detection
+      "-max_muxing_queue_size 1024", // Handle large queues
+      "-avoid_negative_ts make_zero", // Handle negative timestamps
+    ];
+  }
+
+  // Save HLS to MP4 chunks in the temporary directories, one output per pipeline
+  function startFfmpeg() {
+    run++;
+    const runID = String(run).padStart(2, "0");
+    ffmpegCommand = ffmpeg();
+
+    ffmpegCommand.setFfmpegPath("/usr/bin/ffmpeg");
 
-    // Add maximum wait time to prevent deadlock
-    const maxWaitTime = 120 * 1_000; // 3 minutes maximum wait
-    const startWaitTime = Date.now();
+    ffmpegCommand.input(videoInput.url);
+    ffmpegCommand.inputOptions(getFfmpegInputOptions(videoInput));
+    if (anyTranscoded) {
+      ffmpegCommand.inputOptions([
+        "-re", // Read input at native frame rate
+        "-hwaccel auto", // Enable hardware acceleration if available
+      ]);
+    } else {
+      ffmpegCommand.inputOptions([
+        "-re",
+        // Only the preview decodes in copy mode, keyframes are plenty for it
+        ...(preview ? ["-skip_frame", "nokey"] : []),
+      ]);
+    }
+
+    if (audioInput) {
+      ffmpegCommand.input(audioInput.url);
+      ffmpegCommand.inputOptions(["-re", ...getFfmpegInputOptions(audioInput)]);
+    }
+
+    // ffmpeg decodes the input once and feeds every output's filters from it
+    for (const pipeline of pipelines) {
+      ffmpegCommand
+        .output(path.join(pipeline.tmpDir, `output-${runID}-%03d.mp4`))
+        .outputOptions(getOutputOptions(pipeline, runID));
+    }
 
-    while (true) {
-      if (fs.readdirSync(tmpDir).length === 0) {
-        break;
+    if (preview) {
+      // Extra output, one JPEG overwritten in place with the latest picture
+      ffmpegCommand.output(previewFile).outputOptions([
+        "-map",
+        "0:v:0",
+        "-an",
+        "-vf",
+        `fps=1/${config.PREVIEW.INTERVAL_S},scale=${config.PREVIEW.WIDTH}:-2`,
+        "-q:v",
+        "5",
+        "-f",
+        "image2",
+        "-update",
+        "1",
+        "-atomic_writing",
+        "1", // Readers never see a half-written picture
+      ]);
+    }
+    ffmpegCommand.on("end", async () => {
+      logger.log("ffmpeg end");
+      await handleExit();
+    });
+    ffmpegCommand.on("error", async (err) => {
+      // A manual stop kills ffmpeg with SIGINT, which is reported as an error
+      if (stopRequested) {
+        logger.log(`[${name}] ffmpeg stopped`);
+      } else {
+        logger.log("ffmpeg error", err);
+        onError(`ffmpeg: ${err.message}`);
       }
-      if (streamStatus.forceEnded) {
+      await handleExit();
+    });
+    ffmpegCommand.on("progress", (progress) => {
+      logger.log(`[${name}] Processing: ${progress.timemark}ms done`);
+      lastOutputAt = Date.now();
+      if (outage) {
+        // The restarted ffmpeg is recording again, the gap is over
+        const gap: SessionGap = {
+          startedAt: new Date(outage.startedAt).toISOString(),
+          endedAt: new Date(outage.restartedAt).toISOString(),
+          durationMs: outage.restartedAt - outage.startedAt,
+          filled: outage.filled,
+        };
+        outage = null;
         logger.log(
-          `[${name}] Breaking wait loop after timeout or force end conditions met`
+          `[${name}] Reconnected after a ${Math.round(
+            gap.durationMs / 1000
+          )}s gap`
         );
-        break;
+        onGap(gap);
       }
+      onTimeUpdate(progress);
+    });
+    ffmpegCommand.run();
+  }
 
-      if (Date.now() - startWaitTime > maxWaitTime) {
-        logger.log(
-          `[${name}] Breaking wait loop after timeout or force end conditions met`
+  // Fill the time since the last output, or the last filler, with black and silence
+  async function fillGap(until: number) {
+    if (!outage) return;
+    let filled = true;
+
+    for (const pipeline of pipelines) {
+      const file = path.join(
+        pipeline.tmpDir,
+        `gap-${String(run).padStart(2, "0")}.mp4`
+      );
+      // Written under another name, the file watcher hands over gap-*.mp4 right away
+      const partialFile = `${file}.partial`;
+      try {
+        await writeGapFiller(
+          partialFile,
+          until - outage.filledUntil,
+          videoInput,
+          audioInput,
+          pipeline.mode,
+          pipeline.profile
         );
-        break;
+        fs.renameSync(partialFile, file);
+      } catch (err) {
+        logger.log(`[${pipeline.label}] Could not fill the gap: ${err}`);
+        if (fs.existsSync(partialFile)) fs.unlinkSync(partialFile);
+        filled = false;
       }
+    }
 
-      await new Promise((resolve) => setTimeout(resolve, 5000));
+    if (filled) {
+      outage.filledUntil = until;
+      outage.filled = true;
     }
-    clearInterval(fileWatcherInterval);
-    const streamFiles = fs.readdirSync(tmpDir);
-    await onEnd(tmpDir, streamFiles);
-    await cleanup();
-  });
-  ffmpegCommand.on("error", async (err) => {
-    logger.log("ffmpeg error", err);
-    streamStatus.m3u8StreamEndedAt = Date.now();
-    clearTimeout(globalTimeout);
+  }
 
-    // Add maximum wait time to prevent deadlock
-    const maxWaitTime = 120 * 1_000; // 3 minutes maximum wait
-    const startWaitTime = Date.now();
+  /**
+   * ffmpeg exits when the source drops out. Instead of ending the session, wait up
+   * to the grace period for the playlist to come back and restart ffmpeg, the
+   * chunks keep going into the same session.
+   */
+  async function handleExit() {
+    if (stopRequested || finished || gracePeriodMs <= 0) {
+      await finish();
+      return;
+    }
 
-    while (true) {
-      if (fs.readdirSync(tmpDir).length === 0) {
-        break;
-      }
-      if (streamStatus.forceEnded) {
-        logger.log(
-          `[${name}] Breaking wait loop after timeout or force end conditions met`
-        );
-        break;
-      }
+    reconnecting = true;
+    if (!outage) {
+      const startedAt = lastOutputAt || Date.now();
+      outage = { startedAt, restartedAt: 0, filledUntil: startedAt, filled: false };
+    }
+    logger.log(
+      `[${name}] Source dropped out, reconnecting for up to ${
+        gracePeriodMs / 1000
+      }s`
+    );
 
-      if (Date.now() - startWaitTime > maxWaitTime) {
-        logger.log(
-          `[${name}] Breaking wait loop after timeout or force end conditions met`
-        );
-        break;
+    while (
+      !stopRequested &&
+      Date.now() - outage.startedAt < gracePeriodMs
+    ) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, config.RECONNECT.RETRY_INTERVAL_S * 1000)
+      );
+
+      const liveness = await livenessMonitor.check(m3u8Url, requestOptions);
+      if (liveness.status === "ended") break;
+      if (liveness.status !== "live") continue;
+
+      try {
+        ({ videoInput, audioInput } = await resolveInputs());
+      } catch (err) {
+        logger.log(`[${name}] Could not resolve the source again: ${err}`);
+        continue;
       }
 
-      await new Promise((resolve) => setTimeout(resolve, 5000));
+      // The filler is written before the restart, so it sorts ahead of the new segments
+      outage.restartedAt = Date.now();
+      if (fillGaps) await fillGap(outage.restartedAt);
+      if (stopRequested) break;
+
+      reconnecting = false;
+      startFfmpeg();
+      return;
     }
-    clearInterval(fileWatcherInterval);
-    const streamFiles = fs.readdirSync(tmpDir);
-    await onEnd(tmpDir, streamFiles);
-    await cleanup();
-  });
-  ffmpegCommand.on("progress", (progress) => {
-    logger.log(`[${name}] Processing: ${progress.timemark}ms done`);
-    onTimeUpdate(progress);
+
+    reconnecting = false;
+    if (!stopRequested) {
+      logger.log(`[${name}] Source did not come back, ending the session`);
+    }
+    await finish();
+  }
+
+  startFfmpeg();
+  stopSignal.addEventListener("abort", () => requestStop("Stop requested"), {
+    once: true,
   });
-  ffmpegCommand.run();
+
+  function requestStop(reason: string) {
+    if (stopRequested || finished) return;
+    stopRequested = true;
+    logger.log(`[${name}] ${reason}, finalizing current segment`);
+    // SIGINT lets ffmpeg write the trailer of the segment in progress, while
+    // reconnecting there is no ffmpeg and the loop ends on its own
+    if (!reconnecting) ffmpegCommand.kill("SIGINT");
+  }
+
+  const variant = getSourceVariant(selection);
+  return pipelines.map((pipeline) => ({
+    encoding:
+      pipeline.mode === "copy"
+        ? { codecMode: pipeline.mode, variant }
+        : {
+            codecMode: pipeline.mode,
+            profile: pipeline.encodingProfile,
+            settings: pipeline.profile,
+            variant,
+          },
+    preview: previewFile,
+  }));
 }
 
-export function downloadStream(
-  sessionID: string,
-  name: string,
-  streamUrl: string,
-  outputDir: string,
-  uploadToS3: boolean = false,
-  chunkDuration: number = 60,
-  onTimeUpdate: (args: {
+// Where one output of a recording goes, and how it is encoded
+interface RecordingTarget {
+  outputDir: string;
+  rendition?: string;
+  codecMode?: CodecMode;
+  encodingProfile?: string;
+}
+
+type TimeUpdateCallback = (
+  args: {
     frames: number;
     currentFps: number;
     currentKbps: number;
     targetSize: number;
     timemark: string;
     percent?: number | undefined;
-  }) => void,
-  onFileUpdate: (file: string, fileSize: number) => void,
-  onFileUpload?: (file: string, fileSize: number) => void,
-  maxStreamDuration: number = 8 * 60 * 60 * 1000 // 8 hours max by default
+  },
+  rendition?: string
+) => void;
+
+/**
+ * Record one source into every target with a single ffmpeg process. Each target gets
+ * its chunks saved and uploaded and its archive built on its own, the promise rejects
+ * with the first target that failed once all of them are done.
+ */
+function recordSource(
+  sessionID: string,
+  name: string,
+  streamUrl: string,
+  targets: RecordingTarget[],
+  uploadToS3: boolean,
+  chunkDuration: number,
+  onTimeUpdate: TimeUpdateCallback,
+  onFileUpdate: (file: string, fileSize: number, rendition?: string) => void,
+  onFileUpload: ((file: string, fileSize: number) => void) | undefined,
+  maxStreamDuration: number,
+  storage: string | undefined,
+  onUploadProgress: UploadProgressCallback | undefined,
+  options: RecordingOptions
 ): Promise<void> {
+  const label =
+    targets.length === 1 && targets[0].rendition
+      ? `${name}/${targets[0].rendition}`
+      : name;
+  let recordingHandles: RecordingHandle[] = [];
+  const stopSignal = beginRecordingSession(sessionID);
+
   return new Promise((resolve, reject) => {
     logger.log(
-      `[${name}] Starting stream download with timeout of ${
+      `[${label}] Starting stream download with timeout of ${
         maxStreamDuration / 60000
       } minutes`
     );
@@ -401,7 +995,21 @@ export function downloadStream(
       resolve(); // Resolve the promise to prevent hanging
     }, maxStreamDuration + 5 * 60 * 1000); // Add 5 minutes buffer to the max duration
 
-    try {
+    // Settled once the last target has ended
+    let remaining = targets.length;
+    const errors: unknown[] = [];
+    function targetEnded(err?: unknown) {
+      if (err !== undefined) errors.push(err);
+      if (--remaining > 0) return;
+
+      clearTimeout(failsafeTimeout);
+      if (errors.length > 0) reject(errors[0]);
+      else resolve();
+    }
+
+    function createOutput(target: RecordingTarget): RecordingOutput {
+      const { outputDir, rendition } = target;
+
       // Clear output directory if it exists
       if (fs.existsSync(outputDir)) {
         fs.readdirSync(outputDir).forEach((file) => {
@@ -414,40 +1022,63 @@ export function downloadStream(
       // Create fresh output directory
       fs.mkdirSync(outputDir, { recursive: true });
 
-      downloadHLSTOMp4(
-        name,
-        streamUrl,
-        chunkDuration,
-        async (buffer) => {
+      return {
+        rendition,
+        codecMode: target.codecMode,
+        encodingProfile: target.encodingProfile,
+        // HLS archives are cut at these keyframes, renditions line up segment for segment
+        keyframeInterval:
+          options.outputMode === "hls"
+            ? options.hls?.segmentDuration || 6
+            : chunkDuration,
+        onChunk: async (chunkPath, chunkSize) => {
           let time = new Date().toISOString().replace(/[:]/g, "-");
           const filename = `chunk-${time}.mp4`;
           const localPath = path.join(outputDir, filename);
 
           try {
-            await fs.promises.writeFile(localPath, buffer);
+            await moveFile(chunkPath, localPath);
             logger.log(`[${name}] Local Save ${localPath}`);
+            database.addChunk({
+              sessionID,
+              name,
+              file: localPath,
+              size: chunkSize,
+            });
 
             if (uploadToS3) {
-              // replace backslashes with forward slashes
-              let s3Path = outputDir
-                .replace(/\\/g, "/")
-                .replace("recordings/", "");
-              const s3ChunkPath = `${config.AWS.S3_SAVE_PATH}/${config.STREAM_SERVER_NAME}/${s3Path}/${filename}`;
-              const urlUpload = await uploadFile(s3ChunkPath, localPath);
-              await sendWebhookEvent({
-                type: "chunkUpload",
-                payload: {
+              const thumbnails = await publishThumbnails(
+                sessionID,
+                name,
+                localPath,
+                outputDir,
+                storage,
+                rendition
+              );
+              const urlUpload = await uploadQueue.enqueue(
+                {
+                  kind: "chunk",
                   name,
-                  url: urlUpload,
-                  size: formatBytes(buffer.length, 2),
-                  source: streamUrl,
                   sessionID,
+                  key: getStorageKey(outputDir, filename),
+                  file: localPath,
+                  storage,
+                  meta: {
+                    size: chunkSize,
+                    source: streamUrl,
+                    rendition,
+                    thumbnails,
+                  },
                 },
-                server: config.STREAM_SERVER_NAME,
-                time: new Date().toISOString(),
-              });
-              logger.log(`[${name}] S3 Upload ${urlUpload}`);
-              onFileUpload?.(urlUpload, buffer.length);
+                {
+                  onProgress: (loaded, total) =>
+                    onUploadProgress?.(filename, loaded, total),
+                }
+              );
+              if (urlUpload) {
+                logger.log(`[${name}] S3 Upload ${urlUpload}`);
+                onFileUpload?.(urlUpload, chunkSize);
+              }
             }
           } catch (err) {
             console.error(`[${name}] Error saving/uploading file:`, err);
@@ -455,45 +1086,93 @@ export function downloadStream(
             logger.log(`[${name}] Error saving/uploading file: ${err}`);
           }
         },
-        onTimeUpdate,
-        onFileUpdate,
-        async (tmpDir, _streamFiles) => {
+        onFileReady: (file, fileSize) => onFileUpdate(file, fileSize, rendition),
+        onEnd: async () => {
+          // ffmpeg is gone, so is its preview
+          removeRecordings(sessionID, recordingHandles);
           try {
             let fileContents = fs.readdirSync(outputDir);
             fileContents = fileContents.sort();
-            if (fileContents.length > 0) {
-              await combineStreams(
+            // Thumbnails sit next to the chunks, only the videos go into the archive
+            const chunkFiles = fileContents.filter((file) =>
+              file.endsWith(".mp4")
+            );
+            if (chunkFiles.length > 0) {
+              await archiveSession(
                 sessionID,
                 name,
-                fileContents,
+                chunkFiles,
                 outputDir,
-                "complete.mp4",
-                uploadToS3
+                uploadToS3,
+                storage,
+                onUploadProgress,
+                { ...options, rendition }
               );
 
-              // delete all files in the output directory
+              // delete all files in the output directory, chunks still waiting
+              // on an upload retry are deleted once it goes through
               for (const file of fileContents) {
-                fs.unlinkSync(path.join(outputDir, file));
+                uploadQueue.removeFileWhenUploaded(path.join(outputDir, file));
               }
             } else {
               logger.log(`[${name}] No files to combine in ${outputDir}`);
             }
-
-            clearTimeout(failsafeTimeout);
-            resolve();
+            targetEnded();
           } catch (err) {
             logger.log(`[${name}] Error in onEnd handler: ${err}`);
-            clearTimeout(failsafeTimeout);
-            reject(err);
+            targetEnded(err);
           }
         },
-        "lowest", // preferredQuality
-        maxStreamDuration
-      ).catch((err) => {
-        logger.log(`[${name}] Error in downloadHLSTOMp4: ${err}`);
-        clearTimeout(failsafeTimeout);
-        reject(err);
-      });
+      };
+    }
+
+    try {
+      downloadHLSTOMp4(
+        label,
+        streamUrl,
+        chunkDuration,
+        targets.map(createOutput),
+        // One process, one timemark for every target
+        (progress) =>
+          targets.forEach((target) => onTimeUpdate(progress, target.rendition)),
+        options.preferredQuality ?? "lowest",
+        maxStreamDuration,
+        options.request,
+        options.reconnect,
+        (gap) =>
+          targets.forEach((target) =>
+            database.addSessionGap(sessionID, {
+              ...gap,
+              rendition: target.rendition,
+            })
+          ),
+        (message) =>
+          targets.forEach((target) =>
+            reportStreamError(sessionID, name, message, target.rendition)
+          ),
+        stopSignal
+      )
+        .then((recordings) => {
+          if (!recordings) {
+            clearTimeout(failsafeTimeout);
+            resolve();
+            return;
+          }
+          recordingHandles = recordings;
+          activeSessions.get(sessionID)?.recordings.push(...recordings);
+          recordings.forEach((recording, i) =>
+            database.setSessionEncoding(
+              sessionID,
+              recording.encoding,
+              targets[i].rendition
+            )
+          );
+        })
+        .catch((err) => {
+          logger.log(`[${name}] Error in downloadHLSTOMp4: ${err}`);
+          clearTimeout(failsafeTimeout);
+          reject(err);
+        });
     } catch (err) {
       logger.log(`[${name}] Unexpected error in downloadStream: ${err}`);
       clearTimeout(failsafeTimeout);
@@ -502,36 +1181,168 @@ export function downloadStream(
   });
 }
 
+export function downloadStream(
+  sessionID: string,
+  name: string,
+  streamUrl: string,
+  outputDir: string,
+  uploadToS3: boolean = false,
+  chunkDuration: number = 60,
+  onTimeUpdate: TimeUpdateCallback,
+  onFileUpdate: (file: string, fileSize: number, rendition?: string) => void,
+  onFileUpload?: (file: string, fileSize: number) => void,
+  maxStreamDuration: number = 8 * 60 * 60 * 1000, // 8 hours max by default
+  storage?: string,
+  onUploadProgress?: UploadProgressCallback,
+  options: RecordingOptions = {}
+): Promise<void> {
+  return recordSource(
+    sessionID,
+    name,
+    streamUrl,
+    [
+      {
+        outputDir,
+        rendition: options.rendition,
+        codecMode: options.codecMode,
+        encodingProfile: options.encodingProfile,
+      },
+    ],
+    uploadToS3,
+    chunkDuration,
+    onTimeUpdate,
+    onFileUpdate,
+    onFileUpload,
+    maxStreamDuration,
+    storage,
+    onUploadProgress,
+    options
+  );
+}
+
+// Side effects of a finished upload, run on the first attempt or on a later retry
+export function registerUploadHandlers() {
+  uploadQueue.register("chunk", async (job, url) => {
+    database.markChunkUploaded(job.file, job.key, url, job.storage);
+    await sendWebhookEvent({
+      type: "chunkUpload",
+      payload: {
+        name: job.name,
+        url,
+        size: formatBytes(job.meta.size, 2),
+        bytes: job.meta.size,
+        source: job.meta.source,
+        sessionID: job.sessionID,
+        encoding: getSessionEncoding(job.sessionID, job.meta.rendition),
+        thumbnails: job.meta.thumbnails,
+        ...(job.meta.rendition ? { rendition: job.meta.rendition } : {}),
+        ...(job.meta.recovered ? { recovered: true } : {}),
+      },
+      server: config.STREAM_SERVER_NAME,
+      time: new Date().toISOString(),
+    });
+  });
+
+  uploadQueue.register("complete", async (job, url) => {
+    database.addSessionOutput(job.sessionID, {
+      format: job.meta.format || "mp4",
+      key: job.key,
+      file: job.file,
+      storage: job.storage,
+      size: job.meta.size,
+      rendition: job.meta.rendition,
+      manifestKey: job.meta.manifest?.key,
+      uploadedAt: new Date().toISOString(),
+    });
+    let curFiles = globalTracker.getValue()?.uploadedFiles ?? [];
+    globalTracker.setValue({
+      uploadedFiles: [
+        ...curFiles,
+        {
+          name: job.meta.rendition
+            ? `${job.name}/${job.meta.rendition}`
+            : job.name,
+          createdAt: new Date().toISOString(),
+          url,
+          size: formatBytes(job.meta.size, 2),
+        },
+      ].slice(-config.DATABASE.UPLOAD_HISTORY_SIZE),
+    });
+    await sendWebhookEvent({
+      type: "completeUpload",
+      payload: {
+        name: job.name,
+        url,
+        size: formatBytes(job.meta.size, 2),
+        bytes: job.meta.size,
+        chunkCount: job.meta.chunkCount,
+        format: job.meta.format || "mp4",
+        sessionID: job.sessionID,
+        encoding: getSessionEncoding(job.sessionID, job.meta.rendition),
+        manifest: job.meta.manifest,
+        thumbnails: job.meta.thumbnails,
+        ...(job.meta.rendition ? { rendition: job.meta.rendition } : {}),
+      },
+      server: config.STREAM_SERVER_NAME,
+      time: new Date().toISOString(),
+    });
+  });
+
+  uploadQueue.register("manifest", async (job, url) => {
+    await sendWebhookEvent({
+      type: "renditionManifest",
+      payload: {
+        name: job.name,
+        url,
+        format: job.meta.format,
+        renditions: job.meta.renditions,
+        sessionID: job.sessionID,
+      },
+      server: config.STREAM_SERVER_NAME,
+      time: new Date().toISOString(),
+    });
+  });
+}
+
+// Create a concat file listing the chunks in order, returns its path
+function writeConcatFile(outputDir: string, streamFiles: string[]): string {
+  let dir = __dirname.replace(/\\/g, "/").replace("/dist", "");
+
+  const concatFilePath = path
+    .join(dir, outputDir, "concat.txt")
+    // convert backslashes to forward slashes
+    .replace(/\\/g, "/");
+  const fileContent = streamFiles
+    .map((file) => {
+      const t = `file '${path.join(dir, outputDir, file)}'`
+        // convert backslashes to forward slashes
+        .replace(/\\/g, "/");
+      return t;
+    })
+    .join("\n");
+  fs.writeFileSync(concatFilePath, fileContent);
+
+  return concatFilePath;
+}
+
 export async function combineStreams(
   sessionID: string,
   name: string,
   streamFiles: string[],
   outputDir: string,
   outputFileName: string = "output.mp4", // Add default value
-  uploadToS3: boolean = false
+  uploadToS3: boolean = false,
+  storage?: string,
+  onUploadProgress?: UploadProgressCallback,
+  rendition?: string
 ): Promise<void> {
-  return new Promise((resolve, _reject) => {
+  return new Promise((resolve, reject) => {
     // if output file exists, delete it
     if (fs.existsSync(path.join(outputDir, outputFileName))) {
       fs.unlinkSync(path.join(outputDir, outputFileName));
     }
 
-    let dir = __dirname.replace(/\\/g, "/").replace("/dist", "");
-
-    // Create a concat file
-    const concatFilePath = path
-      .join(dir, outputDir, "concat.txt")
-      // convert backslashes to forward slashes
-      .replace(/\\/g, "/");
-    const fileContent = streamFiles
-      .map((file) => {
-        const t = `file '${path.join(dir, outputDir, file)}'`
-          // convert backslashes to forward slashes
-          .replace(/\\/g, "/");
-        return t;
-      })
-      .join("\n");
-    fs.writeFileSync(concatFilePath, fileContent);
+    const concatFilePath = writeConcatFile(outputDir, streamFiles);
 
     let ffmpegCommand = ffmpeg();
     ffmpegCommand.setFfmpegPath("/usr/bin/ffmpeg");
@@ -541,56 +1352,78 @@ export async function combineStreams(
       .on("error", function (err) {
         logger.log(`[${name}] An error occurred: ` + err.message);
         console.error("An error occurred: " + err.message);
+        reportStreamError(
+          sessionID,
+          name,
+          `Combining chunks failed: ${err.message}`,
+          rendition
+        );
         fs.unlinkSync(concatFilePath);
-        resolve();
+        // Callers keep the chunks when there is no archive
+        reject(new Error(`Combining chunks failed: ${err.message}`));
       })
       .on("end", async function () {
         logger.log(`[${name}] ` + outputFileName + ": Processing finished !");
-        console.log(outputFileName + ": Processing finished !");
-        fs.unlinkSync(concatFilePath);
 
-        if (uploadToS3) {
-          const dirName = outputDir
-            .replace(/\\/g, "/")
-            .replace("recordings/", "");
-          const s3FinalPath = `${config.AWS.S3_SAVE_PATH}/${config.STREAM_SERVER_NAME}/${dirName}/${outputFileName}`;
-          let curFiles = globalTracker.getValue()?.uploadedFiles ?? [];
-          const uploadedFileUrl = await uploadFile(
-            s3FinalPath,
-            path.join(outputDir, outputFileName)
+        try {
+          fs.unlinkSync(concatFilePath);
+          const outputPath = path.join(outputDir, outputFileName);
+          const manifest = await publishSessionManifest(
+            sessionID,
+            name,
+            outputDir,
+            streamFiles,
+            {
+              format: "mp4",
+              key: getStorageKey(outputDir, outputFileName),
+              size: fs.statSync(outputPath).size,
+            },
+            uploadToS3,
+            storage,
+            rendition
           );
-          globalTracker.setValue({
-            uploadedFiles: [
-              ...curFiles,
+
+          if (uploadToS3) {
+            const thumbnails = await publishThumbnails(
+              sessionID,
+              name,
+              outputPath,
+              outputDir,
+              storage,
+              rendition
+            );
+            await uploadQueue.enqueue(
               {
-                name: name,
-                createdAt: new Date().toISOString(),
-                url: uploadedFileUrl,
-                size: formatBytes(
-                  fs.statSync(path.join(outputDir, outputFileName)).size,
-                  2
-                ),
+                kind: "complete",
+                name,
+                sessionID,
+                key: getStorageKey(outputDir, outputFileName),
+                file: outputPath,
+                storage,
+                meta: {
+                  size: fs.statSync(outputPath).size,
+                  chunkCount: streamFiles.length,
+                  rendition,
+                  manifest,
+                  thumbnails,
+                },
               },
-            ],
-          });
-          await sendWebhookEvent({
-            type: "completeUpload",
-            payload: {
-              name,
-              url: uploadedFileUrl,
-              size: formatBytes(
-                fs.statSync(path.join(outputDir, outputFileName)).size,
-                2
-              ),
-              chunkCount: streamFiles.length,
-              sessionID,
-            },
-            server: config.STREAM_SERVER_NAME,
-            time: new Date().toISOString(),
-          });
-        }
+              {
+                onProgress: (loaded, total) =>
+                  onUploadProgress?.(outputFileName, loaded, total),
+              }
+            );
+          }
 
-        resolve();
+          resolve();
+        } catch (err) {
+          logger.log(
+            `[${name}] Publishing ${outputFileName} failed: ${
+              (err as Error).message
+            }`
+          );
+          reject(err);
+        }
       });
 
     cmd
@@ -608,3 +1441,625 @@ export async function combineStreams(
     cmd.save(outputDir + "/" + outputFileName);
   });
 }
+
+export type ArchiveOptions = Pick<StreamConfig, "outputMode" | "hls">;
+
+export type RecordingOptions = ArchiveOptions &
+  Pick<
+    StreamConfig,
+    | "codecMode"
+    | "encodingProfile"
+    | "preferredQuality"
+    | "request"
+    | "reconnect"
+  > & {
+    rendition?: string;
+  };
+
+const HLS_PLAYLIST = "index.m3u8";
+const HLS_INIT_FILE = "init.mp4";
+
+export function validateArchiveOptions(options: ArchiveOptions): string | null {
+  if (
+    options.outputMode !== undefined &&
+    options.outputMode !== "mp4" &&
+    options.outputMode !== "hls"
+  ) {
+    return "outputMode must be mp4 or hls";
+  }
+  if (options.hls === undefined) return null;
+  if (!options.hls || typeof options.hls !== "object") {
+    return "hls must be an object";
+  }
+
+  const { segmentType, segmentDuration, playlistUrls } = options.hls;
+  if (
+    segmentType !== undefined &&
+    segmentType !== "mpegts" &&
+    segmentType !== "fmp4"
+  ) {
+    return "hls.segmentType must be mpegts or fmp4";
+  }
+  if (
+    segmentDuration !== undefined &&
+    (typeof segmentDuration !== "number" || segmentDuration <= 0)
+  ) {
+    return "hls.segmentDuration must be a positive number";
+  }
+  if (
+    playlistUrls !== undefined &&
+    playlistUrls !== "relative" &&
+    playlistUrls !== "presigned"
+  ) {
+    return "hls.playlistUrls must be relative or presigned";
+  }
+  return null;
+}
+
+export function validateReconnectOptions(reconnect: unknown): string | null {
+  if (reconnect === undefined) return null;
+  if (!reconnect || typeof reconnect !== "object" || Array.isArray(reconnect)) {
+    return "reconnect must be an object";
+  }
+
+  const { gracePeriodSeconds, fillGaps } = reconnect as ReconnectOptions;
+  if (
+    gracePeriodSeconds !== undefined &&
+    (typeof gracePeriodSeconds !== "number" || gracePeriodSeconds < 0)
+  ) {
+    return "reconnect.gracePeriodSeconds must be zero or a positive number";
+  }
+  if (fillGaps !== undefined && typeof fillGaps !== "boolean") {
+    return "reconnect.fillGaps must be true or false";
+  }
+  return null;
+}
+
+/**
+ * Write session.json next to the archive and upload it before the archive itself,
+ * so the completeUpload webhook can point at it. The URL is null when the upload
+ * was left to a retry.
+ */
+async function publishSessionManifest(
+  sessionID: string,
+  name: string,
+  outputDir: string,
+  streamFiles: string[],
+  output: { format: OutputMode; key: string; size: number },
+  uploadToS3: boolean,
+  storage?: string,
+  rendition?: string
+): Promise<{ key: string; url: string | null } | null> {
+  try {
+    const chunks = streamFiles
+      .filter((file) => file.startsWith("chunk-"))
+      .map((file) => ({
+        file: path.join(outputDir, file),
+        key: getStorageKey(outputDir, file),
+      }));
+    const manifest = await buildSessionManifest(
+      sessionID,
+      name,
+      chunks,
+      output,
+      rendition
+    );
+    const manifestPath = path.join(outputDir, SESSION_MANIFEST);
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+
+    if (!uploadToS3) return null;
+
+    const key = getStorageKey(outputDir, SESSION_MANIFEST);
+    const url = await uploadQueue.enqueue({
+      kind: "sessionManifest",
+      name,
+      sessionID,
+      key,
+      file: manifestPath,
+      storage,
+      meta: { rendition },
+    });
+    return { key, url };
+  } catch (err) {
+    logger.log(`[${name}] Could not publish ${SESSION_MANIFEST}: ${err}`);
+    return null;
+  }
+}
+
+/**
+ * Generate the thumbnails of a video and upload them ahead of it, so its webhook can
+ * link them. Null when thumbnails are off or could not be generated, the video itself
+ * goes out either way.
+ */
+async function publishThumbnails(
+  sessionID: string,
+  name: string,
+  file: string,
+  outputDir: string,
+  storage?: string,
+  rendition?: string
+): Promise<ThumbnailLinks | null> {
+  if (!config.THUMBNAILS.ENABLED) return null;
+
+  try {
+    const files = await generateThumbnails(file);
+    const upload = async (thumbnailFile: string) => {
+      const key = getStorageKey(outputDir, path.basename(thumbnailFile));
+      const url = await uploadQueue.enqueue({
+        kind: "thumbnail",
+        name,
+        sessionID,
+        key,
+        file: thumbnailFile,
+        storage,
+        meta: { rendition },
+      });
+      return { key, url };
+    };
+
+    // The track refers to the sprite sheet, so the sheet goes first
+    const poster = await upload(files.poster);
+    const sprite = await upload(files.sprite);
+    const vtt = await upload(files.vtt);
+    return { poster, sprite, vtt };
+  } catch (err) {
+    logger.log(`[${name}] Could not create thumbnails of ${file}: ${err}`);
+    return null;
+  }
+}
+
+// Build the final archive of a session in the output format the stream asks for
+export async function archiveSession(
+  sessionID: string,
+  name: string,
+  streamFiles: string[],
+  outputDir: string,
+  uploadToS3: boolean = false,
+  storage?: string,
+  onUploadProgress?: UploadProgressCallback,
+  archive: ArchiveOptions & { rendition?: string } = {}
+): Promise<void> {
+  if (archive.outputMode === "hls") {
+    return createHLSArchive(
+      sessionID,
+      name,
+      streamFiles,
+      outputDir,
+      archive.hls,
+      uploadToS3,
+      storage,
+      onUploadProgress,
+      archive.rendition
+    );
+  }
+
+  return combineStreams(
+    sessionID,
+    name,
+    streamFiles,
+    outputDir,
+    "complete.mp4",
+    uploadToS3,
+    storage,
+    onUploadProgress,
+    archive.rendition
+  );
+}
+
+// Point the playlist at presigned URLs so it plays straight from a private bucket
+async function presignPlaylist(
+  playlistPath: string,
+  outputDir: string,
+  storage?: string
+): Promise<void> {
+  const backend = getStorage(storage);
+  const expiresSec = 60 * 60 * 24 * 7; // 1 week, the longest S3 and GCS allow
+  const signed = async (file: string) =>
+    backend.getUrl(getStorageKey(outputDir, `hls/${file}`), expiresSec);
+
+  const lines = fs.readFileSync(playlistPath, "utf8").split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line.startsWith("#EXT-X-MAP:")) {
+      const match = line.match(/URI="([^"]+)"/);
+      if (match) {
+        lines[i] = line.replace(match[0], `URI="${await signed(match[1])}"`);
+      }
+    } else if (line && !line.startsWith("#")) {
+      lines[i] = await signed(line);
+    }
+  }
+  fs.writeFileSync(playlistPath, lines.join("\n"));
+}
+
+/**
+ * Repackage the chunks of a session as an HLS VOD (TS or fMP4 segments plus a playlist)
+ * without re-encoding. Segments are uploaded first, the playlist last, so it only shows up
+ * in storage once everything it points at has been queued.
+ */
+export async function createHLSArchive(
+  sessionID: string,
+  name: string,
+  streamFiles: string[],
+  outputDir: string,
+  options: HLSArchiveOptions = {},
+  uploadToS3: boolean = false,
+  storage?: string,
+  onUploadProgress?: UploadProgressCallback,
+  rendition?: string
+): Promise<void> {
+  const hlsDir = path.join(outputDir, "hls");
+  fs.rmSync(hlsDir, { recursive: true, force: true });
+  fs.mkdirSync(hlsDir, { recursive: true });
+
+  const segmentType = options.segmentType || "mpegts";
+  const segmentExtension = segmentType === "fmp4" ? "m4s" : "ts";
+  const concatFilePath = writeConcatFile(outputDir, streamFiles);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      let ffmpegCommand = ffmpeg();
+      ffmpegCommand.setFfmpegPath("/usr/bin/ffmpeg");
+      ffmpegCommand.setFfprobePath("/usr/bin/ffprobe");
+
+      ffmpegCommand
+        .input(concatFilePath)
+        .inputOptions(["-f", "concat", "-safe", "0"])
+        .outputOptions([
+          "-c:v",
+          "copy",
+          "-c:a",
+          "copy",
+          "-f",
+          "hls",
+          "-hls_time",
+          String(options.segmentDuration || 6),
+          "-hls_playlist_type",
+          "vod",
+          "-hls_segment_type",
+          segmentType,
+          "-hls_segment_filename",
+          path.join(hlsDir, `segment-%05d.${segmentExtension}`),
+          ...(segmentType === "fmp4"
+            ? ["-hls_fmp4_init_filename", HLS_INIT_FILE]
+            : []),
+        ])
+        .on("error", (err) => reject(err))
+        .on("end", () => resolve())
+        .save(path.join(hlsDir, HLS_PLAYLIST));
+    });
+  } catch (err) {
+    logger.log(`[${name}] An error occurred while packaging HLS: ${err}`);
+    reportStreamError(
+      sessionID,
+      name,
+      `Packaging HLS failed: ${(err as Error).message}`,
+      rendition
+    );
+    // Callers keep the chunks when there is no archive
+    throw new Error(`Packaging HLS failed: ${(err as Error).message}`);
+  } finally {
+    fs.unlinkSync(concatFilePath);
+  }
+
+  const playlistPath = path.join(hlsDir, HLS_PLAYLIST);
+  const segmentFiles = fs
+    .readdirSync(hlsDir)
+    .filter((file) => file !== HLS_PLAYLIST)
+    .sort();
+  logger.log(
+    `[${name}] ${HLS_PLAYLIST}: Packaged ${segmentFiles.length} HLS file(s)`
+  );
+
+  const segmentsSize = segmentFiles.reduce(
+    (sum, file) => sum + fs.statSync(path.join(hlsDir, file)).size,
+    0
+  );
+  const manifest = await publishSessionManifest(
+    sessionID,
+    name,
+    outputDir,
+    streamFiles,
+    {
+      format: "hls",
+      key: getStorageKey(outputDir, `hls/${HLS_PLAYLIST}`),
+      size: segmentsSize + fs.statSync(playlistPath).size,
+    },
+    uploadToS3,
+    storage,
+    rendition
+  );
+
+  if (!uploadToS3) return;
+
+  for (const file of segmentFiles) {
+    const filePath = path.join(hlsDir, file);
+    const size = fs.statSync(filePath).size;
+
+    await uploadQueue.enqueue(
+      {
+        kind: "hlsSegment",
+        name,
+        sessionID,
+        key: getStorageKey(outputDir, `hls/${file}`),
+        file: filePath,
+        storage,
+        meta: { size, rendition },
+      },
+      {
+        onProgress: (loaded, total) =>
+          onUploadProgress?.(`hls/${file}`, loaded, total),
+      }
+    );
+  }
+
+  if (options.playlistUrls === "presigned") {
+    await presignPlaylist(playlistPath, outputDir, storage);
+  }
+
+  await uploadQueue.enqueue(
+    {
+      kind: "complete",
+      name,
+      sessionID,
+      key: getStorageKey(outputDir, `hls/${HLS_PLAYLIST}`),
+      file: playlistPath,
+      storage,
+      meta: {
+        size: segmentsSize + fs.statSync(playlistPath).size,
+        chunkCount: streamFiles.length,
+        segmentCount: segmentFiles.filter((file) => file !== HLS_INIT_FILE)
+          .length,
+        format: "hls",
+        rendition,
+        manifest,
+      },
+    },
+    {
+      onProgress: (loaded, total) =>
+        onUploadProgress?.(`hls/${HLS_PLAYLIST}`, loaded, total),
+    }
+  );
+}
+
+const RENDITION_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export function validateRenditions(renditions: unknown): string | null {
+  if (renditions === undefined) return null;
+  if (!Array.isArray(renditions)) return "renditions must be a list";
+
+  const names = new Set<string>();
+  for (const rendition of renditions as RenditionConfig[]) {
+    if (!rendition || typeof rendition !== "object") {
+      return "each rendition must be an object";
+    }
+    if (
+      typeof rendition.name !== "string" ||
+      !RENDITION_NAME_PATTERN.test(rendition.name)
+    ) {
+      return "rendition name may only contain letters, digits, - and _";
+    }
+    if (names.has(rendition.name)) {
+      return `rendition ${rendition.name} is listed twice`;
+    }
+    names.add(rendition.name);
+
+    const { quality, codecMode, encodingProfile } = rendition;
+    const qualityError = validatePreferredQuality(quality);
+    if (qualityError) {
+      return `rendition ${rendition.name}: ${qualityError.replace(
+        "preferredQuality",
+        "quality"
+      )}`;
+    }
+    if (
+      codecMode !== undefined &&
+      codecMode !== "copy" &&
+      codecMode !== "transcode"
+    ) {
+      return `rendition ${rendition.name}: codecMode must be copy or transcode`;
+    }
+    if (
+      encodingProfile !== undefined &&
+      (typeof encodingProfile !== "string" ||
+        !hasEncodingProfile(encodingProfile))
+    ) {
+      return `rendition ${rendition.name}: encodingProfile must be one of the configured profiles`;
+    }
+  }
+  return null;
+}
+
+// Average bitrate of a packaged HLS rendition, BANDWIDTH is mandatory in a master playlist
+function getHLSBandwidth(hlsDir: string): number {
+  const playlist = fs.readFileSync(path.join(hlsDir, HLS_PLAYLIST), "utf8");
+  const duration = playlist
+    .split("\n")
+    .filter((line) => line.startsWith("#EXTINF:"))
+    .reduce((sum, line) => sum + parseFloat(line.slice(8)), 0);
+  const size = fs
+    .readdirSync(hlsDir)
+    .filter((file) => file !== HLS_PLAYLIST)
+    .reduce((sum, file) => sum + fs.statSync(path.join(hlsDir, file)).size, 0);
+
+  return duration > 0 ? Math.round((size * 8) / duration) : 0;
+}
+
+/**
+ * Describe the renditions of a session in manifest.json and, for HLS output, a master
+ * playlist pointing at each rendition's playlist. Renditions without an archive are left out.
+ */
+export async function publishRenditionManifest(
+  sessionID: string,
+  name: string,
+  outputDir: string,
+  renditions: string[],
+  uploadToS3: boolean = false,
+  storage?: string,
+  archive: ArchiveOptions = {}
+): Promise<void> {
+  const format = archive.outputMode === "hls" ? "hls" : "mp4";
+  const entries = renditions
+    .map((rendition) => {
+      const file =
+        format === "hls"
+          ? `${rendition}/hls/${HLS_PLAYLIST}`
+          : `${rendition}/complete.mp4`;
+      return {
+        name: rendition,
+        file,
+        key: getStorageKey(outputDir, file),
+        encoding: getSessionEncoding(sessionID, rendition),
+      };
+    })
+    .filter((entry) => fs.existsSync(path.join(outputDir, entry.file)));
+
+  if (entries.length === 0) {
+    logger.log(`[${name}] No rendition archives to describe in ${outputDir}`);
+    return;
+  }
+
+  const files = ["manifest.json"];
+  fs.writeFileSync(
+    path.join(outputDir, "manifest.json"),
+    JSON.stringify({ sessionID, name, format, renditions: entries }, null, 2)
+  );
+
+  if (format === "hls") {
+    const presigned = archive.hls?.playlistUrls === "presigned";
+    const lines = ["#EXTM3U", "#EXT-X-INDEPENDENT-SEGMENTS"];
+    for (const entry of entries) {
+      const bandwidth = getHLSBandwidth(
+        path.join(outputDir, entry.name, "hls")
+      );
+      lines.push(
+        `#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},NAME="${entry.name}"`,
+        presigned
+          ? await getStorage(storage).getUrl(entry.key, 60 * 60 * 24 * 7)
+          : entry.file
+      );
+    }
+    fs.writeFileSync(
+      path.join(outputDir, "master.m3u8"),
+      lines.join("\n") + "\n"
+    );
+    files.push("master.m3u8");
+  }
+  logger.log(
+    `[${name}] Described ${entries.length} rendition(s) in ${outputDir}`
+  );
+
+  if (!uploadToS3) return;
+
+  for (const file of files) {
+    const filePath = path.join(outputDir, file);
+    await uploadQueue.enqueue({
+      kind: "manifest",
+      name,
+      sessionID,
+      key: getStorageKey(outputDir, file),
+      file: filePath,
+      storage,
+      meta: {
+        size: fs.statSync(filePath).size,
+        format: file === "master.m3u8" ? "hls" : "json",
+        renditions: entries.map((entry) => entry.name),
+      },
+    });
+  }
+}
+
+/**
+ * Record every rendition of a stream into `<outputDir>/<rendition>`, then publish the
+ * manifest describing them. Renditions taken from the same source variant share one
+ * ffmpeg process, so the source is pulled and decoded once and their segments line up.
+ * Takes the same arguments as downloadStream so the watcher can call either.
+ */
+export async function downloadRenditions(
+  sessionID: string,
+  name: string,
+  streamUrl: string,
+  outputDir: string,
+  uploadToS3: boolean = false,
+  chunkDuration: number = 60,
+  onTimeUpdate: TimeUpdateCallback,
+  onFileUpdate: (file: string, fileSize: number, rendition?: string) => void,
+  onFileUpload?: (file: string, fileSize: number) => void,
+  maxStreamDuration: number = 8 * 60 * 60 * 1000,
+  storage?: string,
+  onUploadProgress?: UploadProgressCallback,
+  options: RecordingOptions & Pick<StreamConfig, "renditions"> = {}
+): Promise<void> {
+  const renditions = options.renditions || [];
+  fs.mkdirSync(outputDir, { recursive: true });
+
+  // Qualities can be selector objects, equal ones pick the same variant
+  const groups = new Map<
+    string,
+    { quality: PreferredQuality; group: RenditionConfig[] }
+  >();
+  for (const rendition of renditions) {
+    const quality = rendition.quality ?? options.preferredQuality ?? "lowest";
+    const key = JSON.stringify(quality);
+    groups.set(key, {
+      quality,
+      group: [...(groups.get(key)?.group || []), rendition],
+    });
+  }
+
+  const errors = await Promise.all(
+    [...groups.values()].map(({ quality, group }) =>
+      recordSource(
+        sessionID,
+        name,
+        streamUrl,
+        group.map((rendition) => ({
+          outputDir: path.join(outputDir, rendition.name),
+          rendition: rendition.name,
+          codecMode: rendition.codecMode ?? options.codecMode,
+          encodingProfile:
+            rendition.encodingProfile ?? options.encodingProfile,
+        })),
+        uploadToS3,
+        chunkDuration,
+        onTimeUpdate,
+        onFileUpdate,
+        onFileUpload,
+        maxStreamDuration,
+        storage,
+        onUploadProgress,
+        {
+          outputMode: options.outputMode,
+          hls: options.hls,
+          preferredQuality: quality,
+          request: options.request,
+          reconnect: options.reconnect,
+        }
+      ).then(
+        () => null,
+        (err) => {
+          const names = group.map((rendition) => rendition.name).join(", ");
+          logger.log(`[${name}] Rendition(s) ${names} failed: ${err}`);
+          return err;
+        }
+      )
+    )
+  );
+
+  try {
+    await publishRenditionManifest(
+      sessionID,
+      name,
+      outputDir,
+      renditions.map((rendition) => rendition.name),
+      uploadToS3,
+      storage,
+      options
+    );
+  } catch (err) {
+    logger.log(`[${name}] Error publishing rendition manifest: ${err}`);
+  }
+
+  const failed = errors.find((err) => err !== null);
+  if (failed) throw failed;
+}
@@ -0,0 +1,131 @@
+import fs from 'fs';
+import path from 'path';
+import ffmpeg from 'fluent-ffmpeg';
+import { config } from './config';
+
+// Local files written next to a video, named after it
+export interface ThumbnailFiles {
+    poster: string;
+    sprite: string;
+    vtt: string;
+}
+
+interface SpriteLayout {
+    interval: number;  // Seconds between tiles
+    count: number;
+    columns: number;
+    rows: number;
+    tileWidth: number;
+    tileHeight: number;
+}
+
+function probeVideo(file: string): Promise<{ duration: number; width: number; height: number }> {
+    return new Promise((resolve, reject) => {
+        const probeCommand = ffmpeg(file);
+        probeCommand.setFfprobePath('/usr/bin/ffprobe');
+        probeCommand.ffprobe((err, data) => {
+            if (err) return reject(err);
+
+            const video = data.streams.find(s => s.codec_type === 'video');
+            const duration = Number(data.format.duration);
+            if (!video || !video.width || !video.height) return reject(new Error(`${file} has no video stream`));
+            if (!(duration > 0)) return reject(new Error(`${file} has no duration`));
+            resolve({ duration, width: video.width, height: video.height });
+        });
+    });
+}
+
+function runFfmpeg(input: string, inputOptions: string[], output: string, outputOptions: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const command = ffmpeg();
+        command.setFfmpegPath('/usr/bin/ffmpeg');
+        command
+            .input(input)
+            .inputOptions(inputOptions)
+            .outputOptions(outputOptions)
+            .output(output)
+            .on('end', () => resolve())
+            .on('error', reject)
+            .run();
+    });
+}
+
+// Heights have to be even for the encoder, widths are configured
+function scaleHeight(width: number, sourceWidth: number, sourceHeight: number): number {
+    return Math.max(2, Math.round((width * sourceHeight) / sourceWidth / 2) * 2);
+}
+
+/**
+ * One tile every THUMBNAILS.INTERVAL_S, spread further apart for long videos so the sheet
+ * never has more than THUMBNAILS.MAX_TILES of them.
+ */
+function getSpriteLayout(duration: number, sourceWidth: number, sourceHeight: number): SpriteLayout {
+    const interval = Math.max(config.THUMBNAILS.INTERVAL_S, duration / config.THUMBNAILS.MAX_TILES);
+    const count = Math.max(1, Math.ceil(duration / interval));
+    const columns = Math.min(count, config.THUMBNAILS.COLUMNS);
+    const tileWidth = config.THUMBNAILS.TILE_WIDTH;
+
+    return {
+        interval,
+        count,
+        columns,
+        rows: Math.ceil(count / columns),
+        tileWidth,
+        tileHeight: scaleHeight(tileWidth, sourceWidth, sourceHeight),
+    };
+}
+
+function formatVttTime(seconds: number): string {
+    const ms = Math.round(seconds * 1000);
+    const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+    return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+}
+
+/**
+ * WebVTT thumbnail track: every cue points at its tile with a media fragment. The sprite
+ * is referenced relative to the track, both are uploaded next to each other.
+ */
+function buildThumbnailVtt(layout: SpriteLayout, duration: number, spriteName: string): string {
+    const cues = Array.from({ length: layout.count }, (_, i) => {
+        const x = (i % layout.columns) * layout.tileWidth;
+        const y = Math.floor(i / layout.columns) * layout.tileHeight;
+        const start = i * layout.interval;
+        const end = Math.min((i + 1) * layout.interval, duration);
+        return `${formatVttTime(start)} --> ${formatVttTime(end)}\n` +
+            `${spriteName}#xywh=${x},${y},${layout.tileWidth},${layout.tileHeight}`;
+    });
+    return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+}
+
+/**
+ * Poster frame, sprite sheet and the WebVTT track describing it for a video, written as
+ * `<video>.poster.jpg`, `<video>.sprite.jpg` and `<video>.thumbnails.vtt`.
+ */
+export async function generateThumbnails(file: string): Promise<ThumbnailFiles> {
+    const base = file.replace(/\.mp4$/, '');
+    const files: ThumbnailFiles = {
+        poster: `${base}.poster.jpg`,
+        sprite: `${base}.sprite.jpg`,
+        vtt: `${base}.thumbnails.vtt`,
+    };
+    const { duration, width, height } = await probeVideo(file);
+
+    // A little way in, the very first frames are often black
+    const posterWidth = config.THUMBNAILS.POSTER_WIDTH;
+    await runFfmpeg(file, ['-ss', (duration * 0.1).toFixed(3)], files.poster, [
+        '-frames:v', '1',
+        '-vf', `scale=${posterWidth}:${scaleHeight(posterWidth, width, height)}`,
+        '-q:v', '3',
+    ]);
+
+    const layout = getSpriteLayout(duration, width, height);
+    await runFfmpeg(file, [], files.sprite, [
+        '-an',
+        '-vf', `fps=1/${layout.interval},scale=${layout.tileWidth}:${layout.tileHeight},tile=${layout.columns}x${layout.rows}`,
+        '-frames:v', '1',
+        '-q:v', '5',
+    ]);
+
+    fs.writeFileSync(files.vtt, buildThumbnailVtt(layout, duration, path.basename(files.sprite)));
+    return files;
+}
@@ -1,8 +1,152 @@
 
+export interface ScheduleWindow {
+    days: number[];  // 0 = Sunday ... 6 = Saturday
+    start: string;   // HH:MM in the schedule's timezone
+    end: string;     // HH:MM, earlier than start for windows that run past midnight
+}
+
+export interface CronWindow {
+    cron: string;             // 5-field cron expression marking the window start
+    durationMinutes: number;
+}
+
+export interface StreamSchedule {
+    timezone?: string;  // IANA name, defaults to the server's timezone
+    windows?: ScheduleWindow[];
+    cron?: CronWindow[];
+}
+
+export interface ScheduleStatus {
+    timezone: string;
+    open: boolean;
+    upcoming: {
+        start: string;
+        end: string;
+    }[];
+}
+
+export type OutputMode = 'mp4' | 'hls';
+
+// copy remuxes the source as is, transcode re-encodes it to H.264/AAC
+export type CodecMode = 'copy' | 'transcode';
+
+export interface EncodingProfile {
+    videoCodec?: string;    // ffmpeg encoder name, defaults to libx264
+    preset?: string;
+    crf?: number;
+    videoBitrate?: string;  // e.g. 2500k, instead of crf
+    maxWidth?: number;      // Larger sources are scaled down, keeping the aspect ratio
+    maxHeight?: number;
+    framerate?: number;
+    audioCodec?: string;    // defaults to aac
+    audioBitrate?: string;  // e.g. 128k
+    extraOptions?: string[];
+}
+
+// What a session was actually recorded with, after any fallback
+export interface SessionEncoding {
+    codecMode: CodecMode;
+    profile?: string;
+    settings?: EncodingProfile;
+    variant?: SourceVariant;
+}
+
+// Variant picked from a master playlist, missing when the source was a media playlist
+export interface SourceVariant {
+    url: string;
+    bandwidth: number;
+    resolution?: string;  // e.g. 1280x720
+    codecs: string[];
+    audio?: string;       // Name of the alternate audio rendition recorded with it
+}
+
+export interface HLSArchiveOptions {
+    segmentType?: 'mpegts' | 'fmp4';
+    segmentDuration?: number;                // Seconds, defaults to 6
+    playlistUrls?: 'relative' | 'presigned'; // Presigned URLs expire after a week
+}
+
+export interface TokenRefreshOptions {
+    url: string;               // POSTed { url }, answers with { token, query, headers, expiresIn }
+    queryParam?: string;       // Query parameter the token goes into, defaults to token
+    intervalSeconds?: number;  // Token lifetime when the callback gives no expiresIn
+    headers?: { [name: string]: string };  // Sent to the callback, e.g. an API key
+}
+
+// How to reach a source that needs more than a plain GET
+export interface StreamRequestOptions {
+    headers?: { [name: string]: string };
+    cookies?: { [name: string]: string };
+    userAgent?: string;  // Defaults to Mozilla/5.0
+    auth?: { type: 'basic'; username: string; password: string } | { type: 'bearer'; token: string };
+    tokenRefresh?: TokenRefreshOptions;
+    proxy?: string;      // http(s) proxy for playlist requests and ffmpeg
+}
+
+// Narrows the variants of a master playlist down to the one to record
+export interface QualitySelector {
+    pick?: 'highest' | 'lowest';  // Among the variants left after filtering, defaults to lowest
+    bandwidth?: number;           // Closest to this many bits per second
+    minBandwidth?: number;
+    maxBandwidth?: number;
+    minHeight?: number;           // e.g. 720 for at least 720p
+    maxHeight?: number;
+    codec?: string;               // CODECS prefix such as avc1 or hvc1
+    audio?: {                     // Alternate audio rendition, defaults to the group's default
+        language?: string;
+        name?: string;
+    };
+}
+
+export type PreferredQuality = 'highest' | 'lowest' | number | QualitySelector;
+
+// One output of a stream that records several at once
+export interface RenditionConfig {
+    name: string;  // Subdirectory and storage prefix of this output
+    quality?: PreferredQuality;  // Falls back to the stream's preferredQuality
+    codecMode?: CodecMode;     // Falls back to the stream's setting
+    encodingProfile?: string;  // Falls back to the stream's setting
+}
+
+export interface ReconnectOptions {
+    gracePeriodSeconds?: number;  // How long a dropped source may take to come back, 0 ends the session right away
+    fillGaps?: boolean;           // Fill the missing time with black video and silence
+}
+
+export interface StreamConfig {
+    name: string;
+    url: string;
+    uploadToS3?: boolean;
+    chunkDuration?: number;  // Duration in seconds
+    paused?: boolean;
+    schedule?: StreamSchedule;
+    storage?: string;  // Name of a configured storage backend
+    outputMode?: OutputMode;  // Single complete.mp4 (default) or an HLS VOD package
+    codecMode?: CodecMode;
+    encodingProfile?: string;  // Name of a configured encoding profile, used when transcoding
+    preferredQuality?: PreferredQuality;  // Variant to record from a master playlist, defaults to lowest
+    request?: StreamRequestOptions;
+    hls?: HLSArchiveOptions;
+    renditions?: RenditionConfig[];
+    reconnect?: ReconnectOptions;
+}
+
+export type LivenessStatus = 'live' | 'stalled' | 'ended' | 'unreachable';
+
+export interface LivenessState {
+    status: LivenessStatus;
+    mediaSequence: number | null;  // Sequence number of the newest segment
+    lastProgressAt: number | null; // When a new segment last showed up
+    checkedAt: number;
+    error?: string;
+}
+
 export interface StreamState {
     sessionID: string;
     isActive: boolean;
+    isPaused: boolean;
     currentTimemark: string;
+    renditionTimemarks: { [rendition: string]: string };  // Per rendition while recording several
     fileLogs: string[];
     lastActiveTime: Date | null;
     uploadedFiles: {
@@ -11,6 +155,16 @@ export interface StreamState {
     }[];
     pingHistory: boolean[];
     url: string;
+    schedule: ScheduleStatus | null;
+    uploadProgress: UploadProgress | null;
+    liveness: LivenessStatus | null;
+}
+
+export interface UploadProgress {
+    file: string;
+    loaded: number;
+    total: number;
+    percent: number;
 }
 
 export interface StreamStates {
@@ -24,4 +178,308 @@ export interface GlobalState {
         createdAt: string;
         size: string;
     }[];
-}
\ No newline at end of file
+}
+export type UploadedFile = GlobalState['uploadedFiles'][number];
+
+export type SessionStatus = 'recording' | 'completed' | 'failed' | 'interrupted' | 'recovered';
+
+export interface SessionRecord {
+    sessionID: string;
+    name: string;
+    url: string;
+    outputDir: string;
+    startedAt: string;
+    endedAt: string | null;
+    status: SessionStatus;
+    encoding?: SessionEncoding;
+    renditions?: { [rendition: string]: SessionEncoding };
+    gaps?: SessionGap[];
+    errors?: SessionError[];
+    outputs?: SessionOutput[];
+    recoveryAttempts?: number;  // Startups that tried to rebuild the session after it was cut off or failed
+}
+
+// Time the source was lost before the recording reconnected within the same session
+export interface SessionGap {
+    startedAt: string;
+    endedAt: string;
+    durationMs: number;
+    filled: boolean;
+    rendition?: string;
+}
+
+export interface SessionError {
+    time: string;
+    message: string;
+    rendition?: string;
+}
+
+// An uploaded archive of a session, one per rendition
+export interface SessionOutput {
+    format: OutputMode;
+    key: string;  // complete.mp4, or the playlist of an HLS archive
+    file: string;  // Local copy, it stays on disk after the upload
+    storage?: string;
+    size: number;
+    rendition?: string;
+    manifestKey?: string;  // session.json
+    uploadedAt: string;
+}
+
+export interface ChunkRecord {
+    sessionID: string;
+    name: string;
+    file: string;
+    size: number;
+    createdAt: string;
+    uploaded: boolean;
+    key?: string;
+    url?: string;
+    storage?: string;
+}
+
+// An S3 multipart upload that has been started but not completed yet
+export interface MultipartUploadRecord {
+    bucket: string;
+    key: string;
+    file: string;
+    uploadId: string;
+    partSize: number;
+    createdAt: string;
+}
+
+export type UploadJobKind = 'chunk' | 'complete' | 'hlsSegment' | 'manifest' | 'sessionManifest' | 'thumbnail';
+
+export interface UploadJob {
+    id: string;
+    kind: UploadJobKind;
+    name: string;
+    sessionID: string;
+    key: string;
+    file: string;
+    storage?: string;
+    status: 'pending' | 'failed';  // failed jobs ran out of attempts
+    attempts: number;
+    nextAttemptAt: number;
+    lastError?: string;
+    deleteAfterUpload: boolean;
+    createdAt: string;
+    meta: { [key: string]: any };  // whatever the completion handler needs
+}
+
+export interface StreamStartPayload {
+    name: string;
+    url: string;
+    source: string;
+    sessionID: string;
+}
+
+export interface StreamEndPayload {
+    name: string;
+    url: string;
+    source: string;
+    sessionID: string;
+    encoding?: SessionEncoding;
+    renditions?: { [rendition: string]: SessionEncoding };
+    gaps?: SessionGap[];
+    recovered?: boolean;
+}
+
+// Thumbnails uploaded next to a video, the URL is null when the upload was left to a retry
+export interface ThumbnailLinks {
+    poster: { key: string; url: string | null };
+    sprite: { key: string; url: string | null };
+    vtt: { key: string; url: string | null };  // WebVTT track pointing into the sprite sheet
+}
+
+export interface ChunkUploadPayload {
+    name: string;
+    url: string;
+    size: string;   // Human readable, e.g. 12.5 MB
+    bytes: number;
+    source: string;
+    sessionID: string;
+    encoding?: SessionEncoding;
+    thumbnails?: ThumbnailLinks | null;
+    rendition?: string;
+    recovered?: boolean;
+}
+
+export interface CompleteUploadPayload {
+    name: string;
+    url: string;
+    size: string;
+    bytes: number;
+    chunkCount: number;
+    format: OutputMode;
+    sessionID: string;
+    encoding?: SessionEncoding;
+    manifest?: { key: string; url: string | null } | null;  // session.json
+    thumbnails?: ThumbnailLinks | null;  // complete.mp4 only
+    rendition?: string;
+}
+
+export interface RenditionManifestPayload {
+    name: string;
+    url: string;
+    format: OutputMode;
+    renditions: string[];
+    sessionID: string;
+}
+
+export interface UploadAbandonedPayload {
+    name: string;
+    sessionID: string;
+    kind: UploadJobKind;
+    key: string;
+    file: string;
+    attempts: number;
+    error?: string;
+}
+
+export interface SessionRecoveredPayload {
+    name: string;
+    url: string;
+    sessionID: string;
+    chunkCount: number;
+    renditions?: string[];
+}
+
+// Alerts are deduplicated, occurrences counts the ones folded into this delivery
+interface AlertPayload {
+    occurrences: number;
+}
+
+export interface StreamErrorPayload extends AlertPayload {
+    name: string;
+    url: string;
+    sessionID: string;
+    error: string;
+    rendition?: string;
+}
+
+export interface UploadFailedPayload extends AlertPayload {
+    name: string;
+    sessionID: string;
+    kind: UploadJobKind;
+    key: string;
+    attempts: number;
+    error: string;
+    nextAttemptAt: string;
+}
+
+export interface StreamStalledPayload extends AlertPayload {
+    name: string;
+    url: string;
+    sessionID: string | null;  // Set when the stream was being recorded
+    status: LivenessStatus;
+    lastProgressAt: string | null;
+}
+
+export interface DiskLowPayload extends AlertPayload {
+    path: string;
+    freeBytes: number;
+    totalBytes: number;
+    freePercent: number;
+    thresholdPercent: number;
+}
+
+export interface HighCpuPayload extends AlertPayload {
+    cpu: number;
+    memoryPercent: number;
+    thresholdPercent: number;
+    samples: number;  // Consecutive samples above the threshold
+}
+
+export interface WebhookPayloads {
+    streamStart: StreamStartPayload;
+    streamEnd: StreamEndPayload;
+    chunkUpload: ChunkUploadPayload;
+    completeUpload: CompleteUploadPayload;
+    renditionManifest: RenditionManifestPayload;
+    uploadAbandoned: UploadAbandonedPayload;
+    sessionRecovered: SessionRecoveredPayload;
+    streamError: StreamErrorPayload;
+    uploadFailed: UploadFailedPayload;
+    streamStalled: StreamStalledPayload;
+    diskLow: DiskLowPayload;
+    highCpu: HighCpuPayload;
+}
+
+export type WebhookEventType = keyof WebhookPayloads;
+
+export type WebhookEvent<T extends WebhookEventType = WebhookEventType> = {
+    [K in T]: {
+        type: K;
+        payload: WebhookPayloads[K];
+        time: string;
+        server: string;
+    };
+}[T];
+
+export interface WebhookEndpoint {
+    url: string;
+    secret?: string;                  // Signs every delivery with HMAC-SHA256
+    bearerToken?: string;             // Sent as Authorization: Bearer, for receivers that predate signing
+    events?: WebhookEventType[];      // Every event when left out
+    headers?: { [name: string]: string };
+}
+
+// Each role can do everything the ones before it can
+export type Role = 'viewer' | 'operator' | 'admin';
+
+export type AuthMethod = 'none' | 'apiKey' | 'password' | 'oidc';
+
+export interface Identity {
+    name: string;
+    role: Role;
+    method: AuthMethod;
+}
+
+export interface ApiKeyConfig {
+    key: string;
+    role: Role;
+}
+
+// One of password or passwordHash (scrypt:<salt>:<hash>, both hex)
+export interface UserConfig {
+    password?: string;
+    passwordHash?: string;
+    role: Role;
+}
+
+export interface AuditEntry {
+    time: string;
+    actor: string;
+    role: Role;
+    method: AuthMethod;
+    action: string;   // e.g. stream.update or session.stop
+    target: string;   // Stream name, session ID, ...
+    ip?: string;
+    details?: { [key: string]: unknown };
+}
+
+export interface WebhookDelivery {
+    id: string;
+    endpoint: string;
+    event: WebhookEvent;
+    status: 'pending' | 'delivered' | 'failed';  // failed deliveries ran out of attempts
+    attempts: number;
+    nextAttemptAt: number;
+    lastError?: string;
+    responseStatus?: number;
+    createdAt: string;
+    deliveredAt?: string;
+}
+
+export interface DatabaseSchema {
+    streams: StreamConfig[];
+    pingHistory: { [streamName: string]: boolean[] };
+    sessions: SessionRecord[];
+    chunks: ChunkRecord[];
+    uploads: UploadedFile[];
+    multipartUploads: MultipartUploadRecord[];
+    uploadJobs: UploadJob[];
+    webhookDeliveries: WebhookDelivery[];
+    auditLog: AuditEntry[];
+}
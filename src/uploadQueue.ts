@@ -0,0 +1,214 @@
+import fs from 'fs';
+import { config } from './config';
+import { database } from './database';
+import { getStorage, UploadOptions } from './storage';
+import { UploadJob, UploadJobKind } from './types';
+import { getBackoffDelay } from './utils/backoff';
+import { logger } from './utils/logger';
+import { randomID } from './utils/randomID';
+import { sendWebhookEvent } from './webhook';
+import { raiseAlert } from './alerts';
+
+type UploadHandler = (job: UploadJob, url: string) => Promise<void>;
+
+export interface UploadQueueStats {
+    pending: number;
+    failed: number;
+}
+
+/**
+ * Uploads go through this queue so a failed one is retried with backoff instead of
+ * being dropped. Jobs live in the database, so retries carry on after a restart.
+ */
+class UploadQueue {
+    private handlers = new Map<UploadJobKind, UploadHandler>();
+    private inFlight = new Set<string>();
+    private checkInterval: NodeJS.Timeout | null = null;
+    private processing = false;
+
+    // Called once an upload succeeds, on the first attempt or on a retry
+    register(kind: UploadJobKind, handler: UploadHandler) {
+        this.handlers.set(kind, handler);
+    }
+
+    start() {
+        this.checkInterval = setInterval(() => {
+            this.processDue();
+        }, config.UPLOAD_QUEUE.CHECK_INTERVAL_MS);
+    }
+
+    stop() {
+        if (this.checkInterval) {
+            clearInterval(this.checkInterval);
+            this.checkInterval = null;
+        }
+    }
+
+    getJobs(): UploadJob[] {
+        return database.getUploadJobs();
+    }
+
+    getStats(): { [streamName: string]: UploadQueueStats } {
+        const stats: { [streamName: string]: UploadQueueStats } = {};
+        this.getJobs().forEach(job => {
+            stats[job.name] = stats[job.name] || { pending: 0, failed: 0 };
+            stats[job.name][job.status]++;
+        });
+        return stats;
+    }
+
+    hasJob(file: string): boolean {
+        return this.getJobs().some(job => job.file === file);
+    }
+
+    /**
+     * Delete a local file now, or once its queued upload has gone through.
+     * Files of abandoned uploads are kept so nothing is lost.
+     */
+    removeFileWhenUploaded(file: string) {
+        const job = this.getJobs().find(j => j.file === file);
+        if (!job) {
+            if (fs.existsSync(file)) fs.unlinkSync(file);
+            return;
+        }
+
+        job.deleteAfterUpload = true;
+        database.saveUploadJob(job);
+    }
+
+    /**
+     * Queue an upload and attempt it right away. Resolves with the URL when that first
+     * attempt succeeds, or null when the upload was left to be retried.
+     */
+    async enqueue(
+        upload: Pick<UploadJob, 'kind' | 'name' | 'sessionID' | 'key' | 'file' | 'storage'> & { meta?: UploadJob['meta'] },
+        options: UploadOptions = {}
+    ): Promise<string | null> {
+        const job: UploadJob = {
+            ...upload,
+            id: randomID(12),
+            status: 'pending',
+            attempts: 0,
+            nextAttemptAt: Date.now(),
+            deleteAfterUpload: false,
+            createdAt: new Date().toISOString(),
+            meta: upload.meta || {},
+        };
+        database.saveUploadJob(job);
+
+        return this.run(job, options);
+    }
+
+    retry(id: string): boolean {
+        const job = this.getJobs().find(j => j.id === id);
+        if (!job || job.status !== 'failed') return false;
+
+        job.status = 'pending';
+        job.attempts = 0;
+        job.nextAttemptAt = Date.now();
+        database.saveUploadJob(job);
+        return true;
+    }
+
+    private async run(job: UploadJob, options: UploadOptions = {}): Promise<string | null> {
+        if (this.inFlight.has(job.id)) return null;
+        this.inFlight.add(job.id);
+
+        try {
+            const url = await getStorage(job.storage).uploadFile(job.key, job.file, options);
+
+            // Re-read the job, deleteAfterUpload may have been set while the upload ran
+            const current = this.getJobs().find(j => j.id === job.id) || job;
+            database.removeUploadJob(job.id);
+
+            const handler = this.handlers.get(job.kind);
+            if (handler) {
+                try {
+                    await handler(current, url);
+                } catch (err) {
+                    logger.log(`[${job.name}] Error in ${job.kind} upload handler for ${job.key}: ${err}`);
+                }
+            }
+
+            if (current.deleteAfterUpload && fs.existsSync(job.file)) {
+                fs.unlinkSync(job.file);
+            }
+
+            return url;
+        } catch (err) {
+            await this.handleFailure(job, err);
+            return null;
+        } finally {
+            this.inFlight.delete(job.id);
+        }
+    }
+
+    private async handleFailure(job: UploadJob, err: unknown) {
+        const current = this.getJobs().find(j => j.id === job.id) || job;
+        current.attempts++;
+        current.lastError = String(err);
+
+        if (current.attempts >= config.UPLOAD_QUEUE.MAX_ATTEMPTS || !fs.existsSync(current.file)) {
+            current.status = 'failed';
+            database.saveUploadJob(current);
+            logger.log(`[${job.name}] Giving up on upload of ${job.key} after ${current.attempts} attempt(s): ${err}`);
+            database.addSessionError(job.sessionID, `Upload of ${job.key} abandoned: ${current.lastError}`, job.meta.rendition);
+
+            await sendWebhookEvent({
+                type: 'uploadAbandoned',
+                payload: {
+                    name: job.name,
+                    sessionID: job.sessionID,
+                    kind: job.kind,
+                    key: job.key,
+                    file: job.file,
+                    attempts: current.attempts,
+                    error: current.lastError,
+                },
+                server: config.STREAM_SERVER_NAME,
+                time: new Date().toISOString(),
+            });
+            return;
+        }
+
+        const delay = getBackoffDelay(
+            current.attempts,
+            config.UPLOAD_QUEUE.RETRY_BASE_DELAY_MS,
+            config.UPLOAD_QUEUE.RETRY_MAX_DELAY_MS
+        );
+        current.nextAttemptAt = Date.now() + delay;
+        database.saveUploadJob(current);
+        logger.log(`[${job.name}] Upload of ${job.key} failed (attempt ${current.attempts}), retrying in ${Math.round(delay / 1000)}s: ${err}`);
+
+        // One alert per stream and kind of upload, a storage outage fails every chunk
+        await raiseAlert('uploadFailed', `uploadFailed:${job.name}:${job.kind}`, {
+            name: job.name,
+            sessionID: job.sessionID,
+            kind: job.kind,
+            key: job.key,
+            attempts: current.attempts,
+            error: current.lastError,
+            nextAttemptAt: new Date(current.nextAttemptAt).toISOString(),
+        });
+    }
+
+    private async processDue() {
+        // One retry at a time, live chunk uploads are not queued behind this loop
+        if (this.processing) return;
+        this.processing = true;
+
+        try {
+            const due = this.getJobs()
+                .filter(job => job.status === 'pending' && job.nextAttemptAt <= Date.now() && !this.inFlight.has(job.id))
+                .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt);
+
+            for (const job of due) {
+                await this.run(job);
+            }
+        } finally {
+            this.processing = false;
+        }
+    }
+}
+
+export const uploadQueue = new UploadQueue();
@@ -1,7 +1,9 @@
+import fs from 'fs';
 import * as os from 'os';
 import * as osUtils from 'os-utils';
+import { config } from './config';
 
-interface SystemUsage {
+export interface SystemUsage {
     cpu: number;
     memory: {
         total: number;
@@ -21,6 +23,35 @@ export async function getSystemUsage(): Promise<SystemUsage> {
     };
 }
 
+/**
+ * Measuring the CPU takes a full second, so callers share one sample: anything asking
+ * within EVENTS.SYSTEM_SAMPLE_MS of the last one gets it back, and concurrent callers
+ * wait on the same measurement instead of starting their own.
+ */
+class SystemSampler {
+    private latest: { usage: SystemUsage; sampledAt: number } | null = null;
+    private pending: Promise<SystemUsage> | null = null;
+
+    async sample(): Promise<SystemUsage> {
+        if (this.latest && Date.now() - this.latest.sampledAt < config.EVENTS.SYSTEM_SAMPLE_MS) {
+            return this.latest.usage;
+        }
+        if (!this.pending) {
+            this.pending = getSystemUsage()
+                .then(usage => {
+                    this.latest = { usage, sampledAt: Date.now() };
+                    return usage;
+                })
+                .finally(() => {
+                    this.pending = null;
+                });
+        }
+        return this.pending;
+    }
+}
+
+export const systemSampler = new SystemSampler();
+
 function getMemoryUsage() {
     const totalMemory = os.totalmem();
     const freeMemory = os.freemem();
@@ -41,3 +72,15 @@ function getCpuUsage(): Promise<number> {
         });
     });
 }
+
+export async function getDiskUsage(dir: string) {
+    const stats = await fs.promises.statfs(dir);
+    const total = stats.blocks * stats.bsize;
+    const free = stats.bavail * stats.bsize;
+
+    return {
+        total,
+        free,
+        freePercentage: total > 0 ? Math.round((free / total) * 100) : 0,
+    };
+}
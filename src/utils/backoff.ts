@@ -0,0 +1,4 @@
+// Exponential backoff: baseMs, 2 * baseMs, 4 * baseMs ... capped at maxMs
+export const getBackoffDelay = (attempt: number, baseMs: number, maxMs: number): number => {
+    return Math.min(baseMs * Math.pow(2, Math.max(attempt - 1, 0)), maxMs);
+}
@@ -1,6 +1,6 @@
 import { config } from "../config";
 
-type LogEntry = {
+export type LogEntry = {
     timestamp: Date;
     message: string;
     data?: any;
@@ -8,6 +8,7 @@ type LogEntry = {
 
 class Logger {
     private logs: LogEntry[] = [];
+    private listeners: ((entry: LogEntry) => void)[] = [];
 
     log(message: string, data?: any) {
         const entry: LogEntry = {
@@ -18,9 +19,17 @@ class Logger {
         if (config.LOGS) {
             console.log(`${message}`, data || '');
             this.logs.push(entry);
+            this.listeners.forEach(listener => listener(entry));
         }
     }
 
+    subscribe(listener: (entry: LogEntry) => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
     getLogs(): LogEntry[] {
         return [...this.logs];
     }
@@ -1,29 +1,53 @@
+import fs from 'fs';
 import path from 'path';
-import { downloadStream } from './stream';
-import { StreamStates } from './types';
+import { beginRecordingSession, downloadRenditions, downloadStream, endRecordingSession, getRecordingPreview, stopRecording } from './stream';
+import { LivenessState, SessionStatus, StreamConfig, StreamState, StreamStates } from './types';
 import stateTracker from './stateTracker';
 import { logger } from './utils/logger';
-import { getSystemUsage } from './usage';
-import { bytesToSize, checkM3U8Availability } from './functions';
+import { getDiskUsage, systemSampler } from './usage';
+import { bytesToSize } from './functions';
+import { livenessMonitor } from './liveness';
 import { sendWebhookEvent } from './webhook';
 import { config } from './config';
 import { randomID } from './utils/randomID';
+import { database } from './database';
+import { getScheduleStatus, isScheduleOpen } from './schedule';
+import { clearAlert, raiseAlert } from './alerts';
 
 
 
 const activeDownloads = new Set<string>();
 
-interface StreamConfig {
-    name: string;
-    url: string;
-    uploadToS3?: boolean;
-    chunkDuration?: number;  // Duration in seconds
+function createStreamState(stream: StreamConfig): StreamState {
+    const savedPingHistory = database.getPingHistory(stream.name);
+
+    return {
+        sessionID: '',
+        isActive: false,
+        isPaused: !!stream.paused,
+        currentTimemark: '0',
+        renditionTimemarks: {},
+        lastActiveTime: null,
+        fileLogs: [],
+        uploadedFiles: [],
+        pingHistory: savedPingHistory && savedPingHistory.length === 96
+            ? [...savedPingHistory]
+            : new Array(96).fill(false), // 24h * 4 (15-min intervals)
+        url: stream.url,
+        schedule: getScheduleStatus(stream.schedule),
+        uploadProgress: null,
+        liveness: livenessMonitor.get(stream.url)?.status ?? null,
+    };
 }
 
 class StreamWatcher {
     private checkInterval: NodeJS.Timeout | null = null;
     private usageInterval: NodeJS.Timeout | null = null;
     private pingInterval: NodeJS.Timeout | null = null;
+    private scheduleInterval: NodeJS.Timeout | null = null;
+    private scheduleOpen = new Map<string, boolean>();
+    private unsubscribeLiveness: (() => void) | null = null;
+    private highCpuSamples = 0;
 
     constructor(
         private streams: StreamConfig[],
@@ -41,20 +65,100 @@ class StreamWatcher {
     private initializeStates() {
         const states: StreamStates = {};
         this.streams.forEach(stream => {
-            states[stream.name] = {
-                sessionID: '',
-                isActive: false,
-                currentTimemark: '0',
-                lastActiveTime: null,
-                fileLogs: [],
-                uploadedFiles: [],
-                pingHistory: new Array(96).fill(false), // 24h * 4 (15-min intervals)
-                url: stream.url
-            };
+            states[stream.name] = createStreamState(stream);
         });
         stateTracker.setValue(states);
     }
 
+    getStreams(): StreamConfig[] {
+        return this.streams.map(stream => ({ ...stream }));
+    }
+
+    getStream(name: string): StreamConfig | undefined {
+        return this.streams.find(stream => stream.name === name);
+    }
+
+    isRecording(name: string): boolean {
+        return activeDownloads.has(name);
+    }
+
+    // Latest picture of a stream that is recording right now
+    getPreview(name: string): string | null {
+        const state = stateTracker.getValue()?.[name];
+        if (!this.isRecording(name) || !state) return null;
+        return getRecordingPreview(state.sessionID);
+    }
+
+    addStream(stream: StreamConfig): StreamConfig {
+        if (this.getStream(stream.name)) {
+            throw new Error(`Stream ${stream.name} already exists`);
+        }
+
+        this.streams.push(stream);
+        database.saveStreams(this.streams);
+
+        const states = stateTracker.getValue() || {};
+        states[stream.name] = createStreamState(stream);
+        stateTracker.setValue(states);
+
+        this.log(`Added stream ${stream.name}`);
+        return stream;
+    }
+
+    updateStream(name: string, changes: Partial<Omit<StreamConfig, 'name'>>): StreamConfig {
+        const stream = this.getStream(name);
+        if (!stream) {
+            throw new Error(`Stream ${name} not found`);
+        }
+
+        // Mutate in place so a running processStream picks up the new settings on its next cycle
+        Object.assign(stream, changes);
+        database.saveStreams(this.streams);
+
+        const states = stateTracker.getValue();
+        if (states && states[name]) {
+            states[name].url = stream.url;
+            states[name].isPaused = !!stream.paused;
+            states[name].schedule = getScheduleStatus(stream.schedule);
+            states[name].liveness = livenessMonitor.get(stream.url)?.status ?? null;
+            stateTracker.setValue(states);
+        }
+
+        this.log(`Updated stream ${name}`);
+        return stream;
+    }
+
+    removeStream(name: string) {
+        const stream = this.getStream(name);
+        if (!stream) {
+            throw new Error(`Stream ${name} not found`);
+        }
+        if (activeDownloads.has(name)) {
+            throw new Error(`Stream ${name} is currently recording`);
+        }
+
+        this.streams = this.streams.filter(s => s !== stream);
+        this.scheduleOpen.delete(name);
+        database.saveStreams(this.streams);
+
+        const states = stateTracker.getValue();
+        if (states) {
+            delete states[name];
+            stateTracker.setValue(states);
+            database.savePingHistory(states);
+        }
+
+        this.log(`Removed stream ${name}`);
+    }
+
+    pauseStream(name: string): StreamConfig {
+        return this.updateStream(name, { paused: true });
+    }
+
+    resumeStream(name: string): StreamConfig {
+        return this.updateStream(name, { paused: false });
+    }
+
     private updatePingHistory() {
         const states = stateTracker.getValue();
         if (!states) return;
@@ -65,6 +169,7 @@ class StreamWatcher {
             state.pingHistory.push(state.isActive);
         });
         stateTracker.setValue(states);
+        database.savePingHistory(states);
     }
 
 
@@ -77,101 +182,268 @@ class StreamWatcher {
                 return;
             }
 
+            if (stream.paused) {
+                this.log(`Skipping paused stream ${stream.name}`);
+                return;
+            }
+
+            if (!isScheduleOpen(stream.schedule)) {
+                this.log(`Skipping ${stream.name}, outside its scheduled windows`);
+                return;
+            }
+
             this.log(`Checking availability for ${stream.name}`);
-            const isAvailable = await checkM3U8Availability(stream.url);
+            const liveness = await livenessMonitor.check(stream.url, stream.request);
+            // A playlist that still answers but stopped advancing is not worth recording
+            const isAvailable = liveness.status === 'live';
 
             states[stream.name].isActive = isAvailable;
             if (isAvailable) {
-                let sessionID = randomID(10);
-                states[stream.name].lastActiveTime = new Date();
-                states[stream.name].sessionID = sessionID;
-                activeDownloads.add(stream.name);
-
-                const outputDir = path.join(this.outputBaseDir, stream.name, new Date().toISOString().replace(/[:]/g, '-') + '-' + sessionID);
-                this.log(`Output directory for ${stream.name}: ${outputDir}`);
-
-                await sendWebhookEvent({
-                    type: 'streamStart',
-                    payload: {
-                        name: stream.name,
-                        url: stream.url,
-                        source: stream.url,
-                        sessionID: sessionID,
-                    },
-                    server: config.STREAM_SERVER_NAME,
-                    time: new Date().toISOString(),
-                });
-
-                try {
-                    await downloadStream(
-                        sessionID,
-                        stream.name,
-                        stream.url,
-                        outputDir,
-                        stream.uploadToS3,
-                        stream.chunkDuration,
-                        (args: { frames: number; currentFps: number; currentKbps: number; targetSize: number; timemark: string; percent?: number | undefined }) => {
-                            states[stream.name].currentTimemark = `${args.timemark} (${args.currentFps} fps) @ ${bytesToSize(args.frames)}`;
-                            stateTracker.setValue(states);
-                        },
-                        (file: string, size: number) => {
-                            states[stream.name].fileLogs.push(`${file} - ${bytesToSize(size)}`);
-                            // Limit file logs to 10
-                            if (states[stream.name].fileLogs.length > 10) {
-                                states[stream.name].fileLogs.shift();
-                            }
-                            stateTracker.setValue(states);
-                        },
-                        (file, fileSize) => {
-                            states[stream.name].uploadedFiles.push({
-                                url: file,
-                                size: bytesToSize(fileSize)
-                            });
-                            stateTracker.setValue(states);
-                        }
-                    );
-
-                } catch (error) {
-                    console.error(`Error downloading stream ${stream.name}:`, error);
-                    setTimeout(() => this.processStream(stream), 30000);
-                } finally {
-
-                    // Clean up state after stream ends
-                    states[stream.name].sessionID = '';
-                    states[stream.name].currentTimemark = '0';
-                    states[stream.name].uploadedFiles = [];
-                    states[stream.name].isActive = false;
-                    states[stream.name].fileLogs = [];
-                    stateTracker.setValue(states);
+                await this.recordStream(stream, states, randomID(10));
+            }
+        } catch (error) {
+            this.handleStreamError(stream, states, error);
+        }
+    }
 
-                    activeDownloads.delete(stream.name);
+    private handleStreamError(stream: StreamConfig, states: StreamStates, error: unknown) {
+        console.error(`Error processing stream ${stream.name}:`, error);
+        if (states[stream.name]) {
+            states[stream.name].isActive = false;
+        }
+        stateTracker.setValue(states);
+        activeDownloads.delete(stream.name);
+    }
 
+    private async recordStream(stream: StreamConfig, states: StreamStates, sessionID: string) {
+        states[stream.name].lastActiveTime = new Date();
+        states[stream.name].sessionID = sessionID;
+        activeDownloads.add(stream.name);
+        // Stoppable from here on, even before ffmpeg is running
+        beginRecordingSession(sessionID);
+
+        const outputDir = path.join(this.outputBaseDir, stream.name, new Date().toISOString().replace(/[:]/g, '-') + '-' + sessionID);
+        this.log(`Output directory for ${stream.name}: ${outputDir}`);
+
+        database.startSession({
+            sessionID,
+            name: stream.name,
+            url: stream.url,
+            outputDir,
+        });
+        let sessionStatus: SessionStatus = 'completed';
+
+        await sendWebhookEvent({
+            type: 'streamStart',
+            payload: {
+                name: stream.name,
+                url: stream.url,
+                source: stream.url,
+                sessionID: sessionID,
+            },
+            server: config.STREAM_SERVER_NAME,
+            time: new Date().toISOString(),
+        });
 
-                    await sendWebhookEvent({
-                        type: 'streamEnd',
-                        payload: {
-                            name: stream.name,
-                            url: stream.url,
-                            source: stream.url,
-                            sessionID: sessionID,
-                        },
-                        server: config.STREAM_SERVER_NAME,
-                        time: new Date().toISOString(),
+        try {
+            // Streams with renditions record each of them through its own pipeline
+            const record = stream.renditions?.length ? downloadRenditions : downloadStream;
+            await record(
+                sessionID,
+                stream.name,
+                stream.url,
+                outputDir,
+                stream.uploadToS3,
+                stream.chunkDuration,
+                (args: { frames: number; currentFps: number; currentKbps: number; targetSize: number; timemark: string; percent?: number | undefined }, rendition?: string) => {
+                    const timemark = `${args.timemark} (${args.currentFps} fps) @ ${bytesToSize(args.frames)}`;
+                    if (rendition) {
+                        states[stream.name].renditionTimemarks[rendition] = timemark;
+                    }
+                    states[stream.name].currentTimemark = timemark;
+                    stateTracker.setValue(states);
+                },
+                (file: string, size: number, rendition?: string) => {
+                    states[stream.name].fileLogs.push(`${rendition ? `${rendition}/` : ''}${file} - ${bytesToSize(size)}`);
+                    // Limit file logs to 10
+                    if (states[stream.name].fileLogs.length > 10) {
+                        states[stream.name].fileLogs.shift();
+                    }
+                    stateTracker.setValue(states);
+                },
+                (file, fileSize) => {
+                    states[stream.name].uploadedFiles.push({
+                        url: file,
+                        size: bytesToSize(fileSize)
                     });
-                }
-            }
+                    stateTracker.setValue(states);
+                },
+                undefined,
+                stream.storage,
+                (file, loaded, total) => {
+                    states[stream.name].uploadProgress = loaded < total
+                        ? { file, loaded, total, percent: Math.floor((loaded / total) * 100) }
+                        : null;
+                    stateTracker.setValue(states);
+                },
+                stream
+            );
+
         } catch (error) {
-            console.error(`Error processing stream ${stream.name}:`, error);
+            console.error(`Error downloading stream ${stream.name}:`, error);
+            database.addSessionError(sessionID, String(error));
+            sessionStatus = 'failed';
+            await raiseAlert('streamError', `streamError:${stream.name}`, {
+                name: stream.name,
+                url: stream.url,
+                sessionID,
+                error: String(error),
+            });
+            setTimeout(() => this.processStream(stream), 30000);
+        } finally {
+            endRecordingSession(sessionID);
+            database.endSession(sessionID, sessionStatus);
+            database.pruneSessions(config.DATABASE.SESSION_HISTORY_SIZE);
+
+            // Clean up state after stream ends
+            states[stream.name].sessionID = '';
+            states[stream.name].currentTimemark = '0';
+            states[stream.name].renditionTimemarks = {};
+            states[stream.name].uploadedFiles = [];
             states[stream.name].isActive = false;
+            states[stream.name].fileLogs = [];
+            states[stream.name].uploadProgress = null;
             stateTracker.setValue(states);
+
             activeDownloads.delete(stream.name);
+
+            const session = database.getSession(sessionID);
+            await sendWebhookEvent({
+                type: 'streamEnd',
+                payload: {
+                    name: stream.name,
+                    url: stream.url,
+                    source: stream.url,
+                    sessionID: sessionID,
+                    encoding: session?.encoding,
+                    ...(session?.renditions ? { renditions: session.renditions } : {}),
+                    gaps: session?.gaps || [],
+                },
+                server: config.STREAM_SERVER_NAME,
+                time: new Date().toISOString(),
+            });
+        }
+    }
+
+    /**
+     * Start recording a stream right away instead of waiting for the next check cycle.
+     * Resolves with the new sessionID once the download has been kicked off.
+     */
+    async recordNow(name: string): Promise<string> {
+        const stream = this.getStream(name);
+        if (!stream) {
+            throw new Error(`Stream ${name} not found`);
+        }
+
+        const states = stateTracker.getValue();
+        if (!states) {
+            throw new Error('Stream states are not initialized');
         }
+
+        if (activeDownloads.has(name)) {
+            throw new Error(`Stream ${name} is already recording`);
+        }
+
+        const liveness = await livenessMonitor.check(stream.url, stream.request);
+        if (liveness.status !== 'live') {
+            throw new Error(`Stream ${name} is not available (${liveness.status})`);
+        }
+
+        // A check cycle may have started it while we were waiting on availability
+        if (activeDownloads.has(name)) {
+            throw new Error(`Stream ${name} is already recording`);
+        }
+
+        const sessionID = randomID(10);
+        states[name].isActive = true;
+        this.recordStream(stream, states, sessionID).catch(error => {
+            this.handleStreamError(stream, states, error);
+        });
+
+        return sessionID;
+    }
+
+    stopSession(sessionID: string): boolean {
+        return stopRecording(sessionID);
+    }
+
+    /**
+     * Runs every minute: refreshes the upcoming windows shown in the status,
+     * stops sessions whose window just closed and checks streams whose window just opened.
+     */
+    private checkSchedules() {
+        const states = stateTracker.getValue();
+        if (!states) return;
+
+        this.streams.forEach(stream => {
+            if (!stream.schedule) return;
+
+            const open = isScheduleOpen(stream.schedule);
+            const wasOpen = this.scheduleOpen.get(stream.name);
+            this.scheduleOpen.set(stream.name, open);
+
+            const state = states[stream.name];
+            if (state) {
+                state.schedule = getScheduleStatus(stream.schedule);
+            }
+
+            if (wasOpen && !open && activeDownloads.has(stream.name) && state?.sessionID) {
+                this.log(`Schedule window closed for ${stream.name}, stopping session ${state.sessionID}`);
+                this.stopSession(state.sessionID);
+            } else if (wasOpen === false && open) {
+                this.log(`Schedule window opened for ${stream.name}`);
+                this.processStream(stream).catch(error => {
+                    console.error(`Unhandled error processing stream ${stream.name}:`, error);
+                });
+            }
+        });
+        stateTracker.setValue(states);
     }
 
     private async monitorSystemUsage() {
         try {
-            const usage = await getSystemUsage();
+            const usage = await systemSampler.sample();
             logger.log(`System Status - CPU: ${usage.cpu}%, Memory Used: ${usage.memory.usagePercentage}%`);
+
+            // A single busy sample is normal while ffmpeg encodes, only sustained load alerts
+            if (usage.cpu >= config.ALERTS.CPU_HIGH_PERCENT) {
+                this.highCpuSamples++;
+            } else {
+                this.highCpuSamples = 0;
+                clearAlert('highCpu');
+            }
+            if (this.highCpuSamples >= config.ALERTS.CPU_HIGH_SAMPLES) {
+                await raiseAlert('highCpu', 'highCpu', {
+                    cpu: usage.cpu,
+                    memoryPercent: usage.memory.usagePercentage,
+                    thresholdPercent: config.ALERTS.CPU_HIGH_PERCENT,
+                    samples: this.highCpuSamples,
+                });
+            }
+
+            const diskPath = fs.existsSync(config.ALERTS.DISK_PATH) ? config.ALERTS.DISK_PATH : '.';
+            const disk = await getDiskUsage(diskPath);
+            if (disk.freePercentage < config.ALERTS.DISK_LOW_PERCENT) {
+                await raiseAlert('diskLow', 'diskLow', {
+                    path: path.resolve(diskPath),
+                    freeBytes: disk.free,
+                    totalBytes: disk.total,
+                    freePercent: disk.freePercentage,
+                    thresholdPercent: config.ALERTS.DISK_LOW_PERCENT,
+                });
+            } else {
+                clearAlert('diskLow');
+            }
         } catch (error) {
             console.error('Error monitoring system usage:', error);
         }
@@ -190,8 +462,38 @@ class StreamWatcher {
         this.log('Finished initiating stream check cycle');
     }
 
+    // Liveness checks come from the watcher and from running recordings alike
+    private updateLiveness(url: string, liveness: LivenessState) {
+        const states = stateTracker.getValue();
+        if (!states) return;
+
+        let changed = false;
+        this.streams.filter(stream => stream.url === url).forEach(stream => {
+            const state = states[stream.name];
+            if (!state || state.liveness === liveness.status) return;
+
+            // Only a source that was live can stall, the alert key folds flapping together
+            if (state.liveness === 'live' && (liveness.status === 'stalled' || liveness.status === 'unreachable')) {
+                raiseAlert('streamStalled', `streamStalled:${stream.name}`, {
+                    name: stream.name,
+                    url: stream.url,
+                    sessionID: state.sessionID || null,
+                    status: liveness.status,
+                    lastProgressAt: liveness.lastProgressAt ? new Date(liveness.lastProgressAt).toISOString() : null,
+                }).catch(err => this.log(`[${stream.name}] Could not raise streamStalled alert: ${err}`));
+            }
+            state.liveness = liveness.status;
+            changed = true;
+        });
+        if (changed) stateTracker.setValue(states);
+    }
+
     start() {
         this.log('Starting StreamWatcher service');
+        this.unsubscribeLiveness = livenessMonitor.subscribe((url, liveness) => {
+            this.updateLiveness(url, liveness);
+        });
+
         // Initial check
         this.checkAndDownloadStreams();
 
@@ -206,6 +508,12 @@ class StreamWatcher {
             this.monitorSystemUsage();
         }, 60_000); // Every 15 seconds
 
+        // Set up schedule window tracking
+        this.checkSchedules();
+        this.scheduleInterval = setInterval(() => {
+            this.checkSchedules();
+        }, 60 * 1000); // Every minute
+
         // Set up ping history tracking
         this.pingInterval = setInterval(() => {
             this.updatePingHistory();
@@ -226,6 +534,14 @@ class StreamWatcher {
             clearInterval(this.pingInterval);
             this.pingInterval = null;
         }
+        if (this.scheduleInterval) {
+            clearInterval(this.scheduleInterval);
+            this.scheduleInterval = null;
+        }
+        if (this.unsubscribeLiveness) {
+            this.unsubscribeLiveness();
+            this.unsubscribeLiveness = null;
+        }
     }
 }
 
@@ -1,38 +1,277 @@
+import crypto from 'crypto';
 import { config } from "./config";
+import { database } from './database';
+import { WebhookDelivery, WebhookEndpoint, WebhookEvent, WebhookEventType } from './types';
+import { getBackoffDelay } from './utils/backoff';
+import { logger } from './utils/logger';
+import { randomID } from './utils/randomID';
 
-export type WebhookEvent = {
-    type: string;
-    payload: any;
-    time: string;
-    server: string;
-};
+export interface WebhookEndpointStats {
+    pending: number;
+    delivered: number;
+    failed: number;
+}
 
-export const sendWebhookEvent = async (event: WebhookEvent) => {
-    if (!config.WEBHOOK_URL) {
-        return;
+const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+    'streamStart',
+    'streamEnd',
+    'chunkUpload',
+    'completeUpload',
+    'renditionManifest',
+    'uploadAbandoned',
+    'sessionRecovered',
+    'streamError',
+    'uploadFailed',
+    'streamStalled',
+    'diskLow',
+    'highCpu',
+];
+
+// WEBHOOK_URL is the "default" endpoint and gets every event, WEBHOOK_ENDPOINTS adds or overrides named ones
+function loadWebhookEndpoints(): { [name: string]: WebhookEndpoint } {
+    const endpoints: { [name: string]: WebhookEndpoint } = {};
+    if (config.WEBHOOK_URL) {
+        endpoints.default = {
+            url: config.WEBHOOK_URL,
+            secret: config.WEBHOOK_SECRET || undefined,
+            bearerToken: config.WEBHOOK_BEARER_TOKEN || undefined,
+        };
+    }
+    let configured: unknown;
+    try {
+        configured = JSON.parse(config.WEBHOOK.ENDPOINTS);
+    } catch (err) {
+        throw new Error(`WEBHOOK_ENDPOINTS is not valid JSON: ${(err as Error).message}`);
     }
+    if (!configured || typeof configured !== 'object' || Array.isArray(configured)) {
+        throw new Error('WEBHOOK_ENDPOINTS must be a JSON object of named endpoints');
+    }
+    return { ...endpoints, ...configured };
+}
 
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 5000);
+let webhookEndpoints: { [name: string]: WebhookEndpoint } | null = null;
 
-    try {
-        const response = await fetch(config.WEBHOOK_URL, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': config.WEBHOOK_SECRET ? `Bearer ${config.WEBHOOK_SECRET}` : '',
-            },
-            body: JSON.stringify(event),
-            signal: controller.signal
+// Parsed on first use, validateWebhookEndpoints sees to it that happens at startup
+function getWebhookEndpoints(): { [name: string]: WebhookEndpoint } {
+    if (!webhookEndpoints) webhookEndpoints = loadWebhookEndpoints();
+    return webhookEndpoints;
+}
+
+function validateWebhookEndpoint(endpoint: WebhookEndpoint): string | null {
+    if (!endpoint || typeof endpoint !== 'object') return 'endpoint must be an object';
+    if (typeof endpoint.url !== 'string' || !/^https?:\/\//.test(endpoint.url)) return 'url must be an http(s) URL';
+
+    for (const field of ['secret', 'bearerToken'] as const) {
+        if (endpoint[field] !== undefined && (typeof endpoint[field] !== 'string' || !endpoint[field])) {
+            return `${field} must be a non-empty string`;
+        }
+    }
+    // Whoever sees a request would have the signing key and could forge signatures
+    if (endpoint.secret !== undefined && endpoint.bearerToken === endpoint.secret) {
+        return 'bearerToken must not be the signing secret';
+    }
+    if (endpoint.events !== undefined) {
+        if (!Array.isArray(endpoint.events)) return 'events must be a list of event types';
+        const unknown = endpoint.events.find(type => !WEBHOOK_EVENT_TYPES.includes(type));
+        if (unknown) return `events lists unknown event type ${unknown}`;
+    }
+    if (endpoint.headers !== undefined &&
+        (!endpoint.headers || typeof endpoint.headers !== 'object' ||
+            Object.values(endpoint.headers).some(value => typeof value !== 'string'))) {
+        return 'headers must map names to strings';
+    }
+    return null;
+}
+
+export function validateWebhookEndpoints() {
+    for (const [name, endpoint] of Object.entries(getWebhookEndpoints())) {
+        const error = validateWebhookEndpoint(endpoint);
+        if (error) {
+            throw new Error(`Webhook endpoint ${name} is invalid: ${error}`);
+        }
+    }
+}
+
+/**
+ * Signature of one delivery attempt. Receivers recompute the HMAC over
+ * `<timestamp>.<body>` and reject timestamps older than a few minutes, so a captured
+ * request can't be replayed later.
+ */
+export function signWebhookBody(body: string, secret: string, timestamp: number): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Every event goes out to each endpoint subscribed to its type. Deliveries live in the
+ * database, so a receiver that is down gets them with backoff, also after a restart,
+ * and the finished ones make up the delivery log.
+ */
+class WebhookQueue {
+    private inFlight = new Set<string>();
+    private checkInterval: NodeJS.Timeout | null = null;
+    private processing = false;
+
+    start() {
+        this.checkInterval = setInterval(() => {
+            this.processDue();
+        }, config.WEBHOOK.CHECK_INTERVAL_MS);
+    }
+
+    stop() {
+        if (this.checkInterval) {
+            clearInterval(this.checkInterval);
+            this.checkInterval = null;
+        }
+    }
+
+    // Endpoints without their secrets, with counts from the delivery log
+    getEndpoints() {
+        const deliveries = this.getDeliveries();
+        return Object.entries(getWebhookEndpoints()).map(([name, endpoint]) => {
+            const stats: WebhookEndpointStats = { pending: 0, delivered: 0, failed: 0 };
+            deliveries.filter(d => d.endpoint === name).forEach(d => stats[d.status]++);
+            return {
+                name,
+                url: endpoint.url,
+                events: endpoint.events || WEBHOOK_EVENT_TYPES,
+                signed: !!endpoint.secret,
+                stats,
+            };
         });
+    }
 
-        if (!response.ok) {
-            throw new Error('Failed to send webhook event');
+    getDeliveries(): WebhookDelivery[] {
+        return database.getWebhookDeliveries();
+    }
+
+    /**
+     * Queue the event for every subscribed endpoint and attempt the deliveries right
+     * away. Failed attempts are left to the retry loop, they never throw.
+     */
+    async send(event: WebhookEvent) {
+        const deliveries = Object.entries(getWebhookEndpoints())
+            .filter(([_name, endpoint]) => !endpoint.events || endpoint.events.includes(event.type))
+            .map(([name]): WebhookDelivery => ({
+                id: randomID(12),
+                endpoint: name,
+                event,
+                status: 'pending',
+                attempts: 0,
+                nextAttemptAt: Date.now(),
+                createdAt: new Date().toISOString(),
+            }));
+        deliveries.forEach(delivery => database.saveWebhookDelivery(delivery));
+
+        await Promise.all(deliveries.map(delivery => this.attempt(delivery)));
+    }
+
+    retry(id: string): boolean {
+        const delivery = this.getDeliveries().find(d => d.id === id);
+        if (!delivery || delivery.status !== 'failed') return false;
+
+        delivery.status = 'pending';
+        delivery.attempts = 0;
+        delivery.nextAttemptAt = Date.now();
+        database.saveWebhookDelivery(delivery);
+        return true;
+    }
+
+    private async attempt(delivery: WebhookDelivery) {
+        if (this.inFlight.has(delivery.id)) return;
+        this.inFlight.add(delivery.id);
+
+        const controller = new AbortController();
+        const timeout = setTimeout(() => controller.abort(), config.WEBHOOK.TIMEOUT_MS);
+
+        try {
+            const endpoint = getWebhookEndpoints()[delivery.endpoint];
+            if (!endpoint) {
+                throw new Error(`Webhook endpoint ${delivery.endpoint} is no longer configured`);
+            }
+
+            const body = JSON.stringify(delivery.event);
+            const timestamp = Math.floor(Date.now() / 1000);
+            const headers: { [name: string]: string } = {
+                ...endpoint.headers,
+                'Content-Type': 'application/json',
+                'X-Webhook-ID': delivery.id,
+                'X-Webhook-Event': delivery.event.type,
+                'X-Webhook-Timestamp': String(timestamp),
+            };
+            if (endpoint.secret) {
+                headers['X-Webhook-Signature'] = `sha256=${signWebhookBody(body, endpoint.secret, timestamp)}`;
+            }
+            if (endpoint.bearerToken) {
+                headers['Authorization'] = `Bearer ${endpoint.bearerToken}`;
+            }
+
+            const response = await fetch(endpoint.url, {
+                method: 'POST',
+                headers,
+                body,
+                signal: controller.signal,
+            });
+            delivery.responseStatus = response.status;
+            if (!response.ok) {
+                throw new Error(`Endpoint answered with status ${response.status}`);
+            }
+
+            delivery.status = 'delivered';
+            delivery.attempts++;
+            delivery.deliveredAt = new Date().toISOString();
+            delete delivery.lastError;
+            database.saveWebhookDelivery(delivery);
+            database.pruneWebhookDeliveries(config.WEBHOOK.LOG_SIZE);
+        } catch (err) {
+            this.handleFailure(delivery, err);
+        } finally {
+            clearTimeout(timeout);
+            this.inFlight.delete(delivery.id);
         }
-    } catch (error) {
-        console.error('Webhook event failed:', error);
-        // throw error;
-    } finally {
-        clearTimeout(timeout);
     }
-}
\ No newline at end of file
+
+    private handleFailure(delivery: WebhookDelivery, err: unknown) {
+        delivery.attempts++;
+        delivery.lastError = String(err);
+
+        if (delivery.attempts >= config.WEBHOOK.MAX_ATTEMPTS || !getWebhookEndpoints()[delivery.endpoint]) {
+            delivery.status = 'failed';
+            database.saveWebhookDelivery(delivery);
+            database.pruneWebhookDeliveries(config.WEBHOOK.LOG_SIZE);
+            logger.log(`Giving up on ${delivery.event.type} webhook to ${delivery.endpoint} after ${delivery.attempts} attempt(s): ${err}`);
+            return;
+        }
+
+        const delay = getBackoffDelay(
+            delivery.attempts,
+            config.WEBHOOK.RETRY_BASE_DELAY_MS,
+            config.WEBHOOK.RETRY_MAX_DELAY_MS
+        );
+        delivery.nextAttemptAt = Date.now() + delay;
+        database.saveWebhookDelivery(delivery);
+        logger.log(`${delivery.event.type} webhook to ${delivery.endpoint} failed (attempt ${delivery.attempts}), retrying in ${Math.round(delay / 1000)}s: ${err}`);
+    }
+
+    private async processDue() {
+        if (this.processing) return;
+        this.processing = true;
+
+        try {
+            const due = this.getDeliveries()
+                .filter(d => d.status === 'pending' && d.nextAttemptAt <= Date.now() && !this.inFlight.has(d.id))
+                .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt);
+
+            for (const delivery of due) {
+                await this.attempt(delivery);
+            }
+        } finally {
+            this.processing = false;
+        }
+    }
+}
+
+export const webhookQueue = new WebhookQueue();
+
+export const sendWebhookEvent = async (event: WebhookEvent) => {
+    await webhookQueue.send(event);
+}